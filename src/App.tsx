@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "./components/ui/card";
 import { Button } from "./components/ui/button";
 import { Input } from "./components/ui/input";
@@ -16,14 +16,109 @@ import {
   Bell,
   Ban,
   CircleDollarSign,
+  CheckCircle2,
+  Link2,
+  Upload,
+  Download,
+  ArrowUp,
+  ArrowDown,
+  CalendarClock,
+  RotateCcw,
+  LogOut,
+  ShieldAlert,
+  StickyNote,
+  ScrollText,
+  Bot,
+  Cpu,
+  UserRound,
+  ChevronDown,
+  ChevronUp,
 } from "lucide-react";
-import { sequenceApi } from "./lib/api";
+import { authApi, isAbortError, mockBackend, patchEnrollment, queryKeys, sequenceApi, serverNow } from "./lib/api";
+import { hasPermission, initials, useCan, useSession } from "./lib/auth";
+import { runWithConcurrency } from "./lib/batch";
+import type { BatchResult } from "./lib/batch";
+import { downloadFile, parseCsv, toCsv } from "./lib/csv";
+import { IMPORT_FIELDS, REQUIRED_IMPORT_FIELDS, guessMapping, missingRequiredFields, validateImportRows } from "./lib/enrollmentImport";
+import type { ColumnMapping } from "./lib/enrollmentImport";
+import {
+  AUDIT_EXPORT_COLUMNS,
+  COMPLIANCE_EXPORT_COLUMNS,
+  ENROLLMENT_EXPORT_COLUMNS,
+  TIMELINE_EXPORT_COLUMNS,
+  auditExportRow,
+  complianceExportRow,
+  enrollmentExportRow,
+  exportRows,
+  timelineExportRow,
+} from "./lib/exports";
+import type { ExportFormat } from "./lib/exports";
+import { setCurrentDealer, useCurrentDealer } from "./lib/dealerScope";
+import { US_STATES, borrowerLocale, buildComplianceReport, checkCompliance, describeRule, findDoNotContact, formatLocalTime } from "./lib/compliance";
+import type { ComplianceRule } from "./lib/compliance";
+import { emptyIntakeForm, isOpenEnrollment, toE164, validateIntake } from "./lib/intake";
+import type { IntakeForm } from "./lib/intake";
+import { callDurationSec, formatDuration, highlightSegments, searchTranscript } from "./lib/calls";
+import { NOTHING_TO_COLLECT, canRecordPayment, paidResolutionError, paymentAmountError, remainingBalance } from "./lib/payments";
+import { buildFollowUps, localDate } from "./lib/followUps";
+import type { FollowUpStatus } from "./lib/followUps";
+import { buildPromises, canEscalatePromise, summarizePromises } from "./lib/promises";
+import type { PaymentPromise, PromiseStatus } from "./lib/promises";
+import { buildTimelineReport } from "./lib/reports";
+import { allowedActions } from "./lib/transitions";
+import type { EnrollmentAction } from "./lib/transitions";
+import type { ReportFilters } from "./lib/reports";
+import { getQueryData, resetQueryCache, setQueryData, updateQueries, useQuery } from "./lib/queryCache";
+import { enrollmentPath, navigate, navigateBack, usePathname, useSearchParams } from "./lib/router";
+import {
+  TIMELINE_CHANNELS,
+  TIMELINE_EVENT_GROUPS,
+  buildDayTracker,
+  currentRun,
+  eventDay,
+  eventKey,
+  eventTimestamp,
+  filterTimeline,
+  hasTimelineFilters,
+  isCadenceRestart,
+  parseTimelineFilters,
+  timelineFilterParams,
+} from "./lib/timeline";
+import type { DayTrackerState, TimelineEventGroup, TimelineFilters } from "./lib/timeline";
+import { getLiveStatus, subscribeLiveStatus, subscribeLiveUpdates } from "./lib/liveUpdates";
 import type {
+  Actor,
+  ActorType,
+  AgentActivityKind,
+  AuditAction,
+  AuditPage,
+  AuditQuery,
+  Cadence,
+  CadenceStep,
+  CallCompletedEvent,
   CallOutcome,
-  CreateEnrollmentPayload,
+  CallSpeaker,
+  Dealer,
+  DoNotContactEntry,
+  DuplicateField,
+  DuplicateMatch,
   Enrollment,
+  EnrollmentPage,
+  EnrollmentSortKey,
   EnrollmentStatus,
+  EnrollmentTimeline,
+  EscalationQueueItem,
+  ListEnrollmentsQuery,
+  EscalationResolution,
+  IdentityVerification,
+  LiveUpdate,
+  PaymentMethod,
+  QuarantinedEvent,
+  SaveCadencePayload,
+  SortOrder,
   TimelineEvent,
+  TimelineResponse,
+  TouchChannel,
   TransferReason,
 } from "./types/sequence";
 
@@ -38,7 +133,7 @@ const TOKENS = {
   red: "#EF4444",
 } as const;
 
-type SidebarKey = "dashboard" | "customers" | "escalations" | "reports" | "settings";
+type SidebarKey = "dashboard" | "customers" | "escalations" | "promises" | "reports" | "audit" | "settings";
 
 type SidebarItem = {
   key: SidebarKey;
@@ -50,7 +145,9 @@ const SIDEBAR: SidebarItem[] = [
   { key: "dashboard", label: "Dashboard", icon: LayoutDashboard },
   { key: "customers", label: "Customers", icon: Users },
   { key: "escalations", label: "Escalations", icon: AlertTriangle },
+  { key: "promises", label: "Promises to pay", icon: CalendarClock },
   { key: "reports", label: "Reports", icon: FileText },
+  { key: "audit", label: "Audit log", icon: ScrollText },
   { key: "settings", label: "Settings", icon: Settings },
 ];
 
@@ -80,10 +177,88 @@ const TRANSFER_REASON_LABELS: Record<TransferReason, string> = {
   undefined_transfer: "Undefined transfer",
 };
 
+const AGENT_ACTIVITY_LABELS: Record<AgentActivityKind, string> = {
+  note: "Note",
+  inbound_call: "Inbound call",
+  dealer_conversation: "Dealer conversation",
+  borrower_email: "Borrower email",
+};
+
+const ACTOR_TYPE_LABELS: Record<ActorType, string> = { user: "People", system: "Sequence engine", ai_agent: "AI caller" };
+
+const ACTOR_ICONS: Record<ActorType, React.ComponentType<{ size?: number; className?: string }>> = { user: UserRound, system: Cpu, ai_agent: Bot };
+
+// Screens report themselves by path segment (see `currentScreen`); a few callers name a narrower source.
+const SOURCE_LABELS: Record<string, string> = {
+  ...Object.fromEntries(SIDEBAR.map((item) => [item.key, item.label])),
+  "enrollment-detail": "Enrollment detail",
+  "bulk-import": "Bulk import",
+  "bulk-actions": "Bulk actions",
+};
+
+function sourceLabel(source: string) {
+  return SOURCE_LABELS[source] ?? source;
+}
+
+function actorLabel(actor: Actor) {
+  return actor.role ? `${actor.name} (${actor.role})` : actor.name;
+}
+
+const RESOLUTION_LABELS: Record<EscalationResolution, string> = {
+  paid: "Resolved as paid",
+  returned_to_active: "Returned to active",
+  suppressed: "Suppressed",
+};
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  card: "Card",
+  ach: "ACH / bank transfer",
+  cash: "Cash",
+  check: "Check",
+  other: "Other",
+};
+
+const COMPLIANCE_RULE_LABELS: Record<ComplianceRule, string> = {
+  quiet_hours: "Outside contact hours",
+  call_frequency: "Too many calls in 7 days",
+  do_not_contact: "On do-not-contact list",
+  unknown_timezone: "Timezone unknown",
+};
+
+const CHANNELS: TouchChannel[] = ["sms", "email", "push", "call"];
+
+const PAGE_SIZE = 25;
+const LIVE_HIGHLIGHT_MS = 8000;
+const LIVE_REFETCH_DELAY_MS = 1000;
+const DEALERS_STALE_MS = 5 * 60_000;
+
+// Stable fallbacks while a query has no data yet, so consumers' memo dependencies don't churn.
+const NO_ENROLLMENTS: Enrollment[] = [];
+const NO_EVENTS: TimelineEvent[] = [];
+const NO_QUARANTINED: QuarantinedEvent[] = [];
+const NO_ESCALATIONS: EscalationQueueItem[] = [];
+const NO_TIMELINES: EnrollmentTimeline[] = [];
+const NO_CADENCES: Cadence[] = [];
+const NO_DEALERS: Dealer[] = [];
+const NO_DO_NOT_CONTACT: DoNotContactEntry[] = [];
+const NO_DUPLICATES: DuplicateMatch[] = [];
+
+const SORT_OPTIONS: Array<{ key: EnrollmentSortKey; label: string }> = [
+  { key: "nextScheduledAt", label: "Next touch" },
+  { key: "amountDue", label: "Amount due" },
+  { key: "currentDay", label: "Sequence day" },
+  { key: "createdAt", label: "Enrolled" },
+];
+
 function cx(...classes: Array<string | null | undefined | false>) {
   return classes.filter(Boolean).join(" ");
 }
 
+function errorText(err: unknown, fallback: string) {
+  if (err == null) return null;
+  return err instanceof Error ? err.message : fallback;
+}
+
 function formatDate(value?: string | null) {
   if (!value) return "—";
   return new Date(value).toLocaleString();
@@ -94,6 +269,27 @@ function formatCurrency(value?: number | null) {
   return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(value);
 }
 
+function formatPercent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+function toDateInput(date: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatAge(from: string) {
+  const minutes = Math.max(0, Math.floor((+serverNow() - +new Date(from)) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+function parseStatus(value: string | null): EnrollmentStatus {
+  return STATUS_ORDER.find((status) => status === value) ?? "ACTIVE";
+}
+
 function statusStyle(status: EnrollmentStatus) {
   if (status === "PAID_EXIT") return { dot: TOKENS.emerald, bg: "rgba(34,197,94,0.14)", text: "rgba(34,197,94,0.95)" };
   if (status === "ESCALATED") return { dot: TOKENS.red, bg: "rgba(239,68,68,0.12)", text: "rgba(239,68,68,0.95)" };
@@ -101,18 +297,6 @@ function statusStyle(status: EnrollmentStatus) {
   return { dot: TOKENS.carpayBlue, bg: "rgba(0,82,204,0.16)", text: "rgba(164,201,255,1)" };
 }
 
-function eventTimestamp(event: TimelineEvent) {
-  if (event.type === "TOUCH_SENT") return event.sentAt;
-  if (event.type === "CALL_COMPLETED") return event.endedAt;
-  if (event.type === "PAYMENT_POSTED") return event.postedAt;
-  return event.at;
-}
-
-function eventDay(event: TimelineEvent) {
-  if (event.type === "TOUCH_SENT" || event.type === "CALL_COMPLETED") return event.day;
-  return null;
-}
-
 function eventTitle(event: TimelineEvent) {
   switch (event.type) {
     case "TOUCH_SENT":
@@ -125,68 +309,299 @@ function eventTitle(event: TimelineEvent) {
       return "Enrollment escalated";
     case "SUPPRESSED":
       return "Enrollment suppressed";
+    case "ESCALATION_RESOLVED":
+      return `Escalation resolved · ${RESOLUTION_LABELS[event.resolution]}`;
+    case "RESUMED":
+      return "Enrollment resumed";
+    case "DE_ESCALATED":
+      return "Escalation withdrawn";
+    case "AGENT_NOTE":
+      return `${AGENT_ACTIVITY_LABELS[event.kind]} · ${event.author}`;
   }
 }
 
-function channelIcon(channel: "sms" | "email" | "push" | "call") {
+function channelIcon(channel: TouchChannel) {
   if (channel === "sms") return MessageSquare;
   if (channel === "email") return Mail;
   if (channel === "push") return Bell;
   return Phone;
 }
 
-function useEnrollments(status: EnrollmentStatus) {
-  const [data, setData] = useState<Enrollment[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+function useDebouncedValue<T>(value: T, delayMs: number) {
+  const [debounced, setDebounced] = useState(value);
 
-  const load = useCallback(async () => {
-    setLoading(true);
-    try {
-      const list = await sequenceApi.listEnrollments(status);
-      setData(list);
-      setError(null);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load enrollments");
-    } finally {
-      setLoading(false);
-    }
-  }, [status]);
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(value), delayMs);
+    return () => window.clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
+
+// One AbortController per data generation: starting a load cancels whatever the previous generation
+// (including page fetches riding on it) still has in flight, so a slow older response can never land
+// over newer data. Unmounting cancels everything.
+function useRequestGeneration() {
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  return useMemo(
+    () => ({
+      next() {
+        controller.current?.abort();
+        controller.current = new AbortController();
+        return controller.current.signal;
+      },
+      current() {
+        controller.current ??= new AbortController();
+        return controller.current.signal;
+      },
+    }),
+    [],
+  );
+}
+
+// Subscribes for the lifetime of the component; the latest `onUpdate` is always the one called.
+function useLiveUpdates(onUpdate: (update: LiveUpdate) => void) {
+  const handler = useRef(onUpdate);
 
   useEffect(() => {
-    void load();
-  }, [load]);
+    handler.current = onUpdate;
+  });
 
-  return { data, loading, error, refresh: load };
+  useEffect(() => subscribeLiveUpdates((update) => handler.current(update)), []);
 }
 
-function useEnrollmentDetail(id: string | null) {
-  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
-  const [events, setEvents] = useState<TimelineEvent[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+// For views whose data is an aggregate: coalesce bursts of enrollment changes into one refetch.
+function useRefetchOnLiveChange(refetch: () => void) {
+  const timer = useRef<number | null>(null);
+
+  useLiveUpdates((update) => {
+    if (update.kind !== "enrollment_updated" || timer.current != null) return;
+    timer.current = window.setTimeout(() => {
+      timer.current = null;
+      refetch();
+    }, LIVE_REFETCH_DELAY_MS);
+  });
+
+  useEffect(() => () => {
+    if (timer.current != null) window.clearTimeout(timer.current);
+  }, []);
+}
+
+function useEnrollments(status: EnrollmentStatus, options: Pick<ListEnrollmentsQuery, "q" | "sort" | "order"> = {}) {
+  const { q, sort, order } = options;
+  const dealerId = useCurrentDealer();
+  const key = queryKeys.enrollmentList(status, { dealerId, q, sort, order });
+  // Revalidating refetches as many rows as are loaded, so a list extended with "Load more" keeps its length.
+  const query = useQuery(key, (signal) => {
+    const limit = Math.max(PAGE_SIZE, getQueryData<EnrollmentPage>(key)?.enrollments.length ?? 0);
+    return sequenceApi.listEnrollments(status, { dealerId, q, sort, order, limit }, { signal });
+  });
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const requests = useRequestGeneration();
+  const nextCursor = query.data?.nextCursor ?? null;
 
-  const load = useCallback(async () => {
-    if (!id) return;
-    setLoading(true);
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    const signal = requests.next();
+    setLoadingMore(true);
     try {
-      const [enroll, timeline] = await Promise.all([sequenceApi.getEnrollment(id), sequenceApi.getTimeline(id)]);
-      setEnrollment(enroll);
-      setEvents(timeline.events);
-      setError(null);
+      const page = await sequenceApi.listEnrollments(status, { dealerId, q, sort, order, limit: PAGE_SIZE, cursor: nextCursor }, { signal });
+      // Append only to the page this cursor came from; a revalidation may have replaced it meanwhile.
+      setQueryData<EnrollmentPage>(key, (current) =>
+        current?.nextCursor === nextCursor ? { enrollments: [...current.enrollments, ...page.enrollments], total: page.total, nextCursor: page.nextCursor } : current,
+      );
+      setLoadMoreError(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load enrollment details");
+      if (isAbortError(err)) return;
+      setLoadMoreError(err instanceof Error ? err.message : "Failed to load more enrollments");
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoadingMore(false);
     }
-  }, [id]);
+  };
 
-  useEffect(() => {
-    if (!id) return;
-    void load();
-  }, [id, load]);
+  // Patch pushed changes into the cache. Rows that move to another status drop out of every loaded list;
+  // enrollments entering this status are prepended only for an unsearched list, since the server owns search matching.
+  useLiveUpdates((update) => {
+    if (update.kind !== "enrollment_updated") return;
+    const next = update.enrollment;
+    updateQueries(patchEnrollment(next.id, () => next));
+    if (next.status !== status || q?.trim() || (dealerId && next.dealerId !== dealerId)) return;
+    setQueryData<EnrollmentPage>(key, (current) =>
+      current && !current.enrollments.some((enrollment) => enrollment.id === next.id)
+        ? { ...current, enrollments: [next, ...current.enrollments], total: current.total == null ? null : current.total + 1 }
+        : current,
+    );
+  });
+
+  return {
+    data: query.data?.enrollments ?? NO_ENROLLMENTS,
+    total: query.data?.total ?? null,
+    hasMore: nextCursor != null,
+    loading: query.loading,
+    loadingMore,
+    error: errorText(query.error, "Failed to load enrollments") ?? loadMoreError,
+    refresh: query.refresh,
+    loadMore,
+  };
+}
 
-  return { enrollment, events, loading, error, refresh: load };
+function useEnrollmentDetail(id: string | null) {
+  const enrollment = useQuery(id ? queryKeys.enrollment(id) : null, (signal) => sequenceApi.getEnrollment(id!, { signal }));
+  const timeline = useQuery(id ? queryKeys.timeline(id) : null, (signal) => sequenceApi.getTimeline(id!, { signal }));
+  const [fresh, setFresh] = useState<ReadonlySet<string>>(new Set());
+
+  useLiveUpdates((update) => {
+    if (update.kind === "enrollment_updated" && update.enrollment.id === id) updateQueries(patchEnrollment(id, () => update.enrollment));
+    if (update.kind !== "timeline_event" || update.enrollmentId !== id) return;
+    const { event } = update;
+    const key = eventKey(event);
+    // A reconnect replays from the last event id, and a refetch may already include the event.
+    setQueryData<TimelineResponse>(queryKeys.timeline(id), (current) =>
+      current && !current.events.some((existing) => eventKey(existing) === key) ? { ...current, events: [...current.events, event] } : current,
+    );
+    setFresh((current) => new Set(current).add(key));
+    window.setTimeout(() => {
+      setFresh((current) => {
+        const next = new Set(current);
+        next.delete(key);
+        return next;
+      });
+    }, LIVE_HIGHLIGHT_MS);
+  });
+
+  const { refresh: refreshEnrollment } = enrollment;
+  const { refresh: refreshTimeline } = timeline;
+  const refresh = useCallback(() => Promise.all([refreshEnrollment(), refreshTimeline()]), [refreshEnrollment, refreshTimeline]);
+
+  return {
+    enrollment: enrollment.data ?? null,
+    events: timeline.data?.events ?? NO_EVENTS,
+    quarantined: timeline.data?.quarantined ?? NO_QUARANTINED,
+    fresh,
+    loading: enrollment.loading || timeline.loading,
+    error: errorText(enrollment.error ?? timeline.error, "Failed to load enrollment details"),
+    refresh,
+  };
+}
+
+function LiveIndicator() {
+  const status = useSyncExternalStore(subscribeLiveStatus, getLiveStatus);
+  if (status === "idle") return null;
+  const open = status === "open";
+
+  return (
+    <div className="flex items-center gap-1.5 text-xs text-white/60" title={open ? "Receiving live updates" : "Live updates interrupted; reconnecting"}>
+      <span className={cx("h-2 w-2 rounded-full", open ? "bg-emerald-400" : "animate-pulse bg-amber-400")} />
+      {open ? "Live" : "Reconnecting…"}
+    </div>
+  );
+}
+
+function MockClockControls({ backend }: { backend: NonNullable<typeof mockBackend> }) {
+  useSyncExternalStore(backend.subscribeMockClock, backend.getMockClockOffset);
+  const hour = 60 * 60 * 1000;
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-white/70">
+      <span className="rounded-full border border-amber-400/30 bg-amber-400/10 px-2 py-0.5 text-amber-200">Mock API</span>
+      <span>Clock: <span className="text-white">{backend.getMockNow().toLocaleString()}</span></span>
+      <Button variant="outline" className="h-7 border-white/10 bg-white/5 px-2 text-xs" onClick={() => backend.advanceMockClock(hour)}>+1h</Button>
+      <Button variant="outline" className="h-7 border-white/10 bg-white/5 px-2 text-xs" onClick={() => backend.advanceMockClock(24 * hour)}>+1d</Button>
+      <Button variant="ghost" className="h-7 px-2 text-xs" onClick={() => {
+        backend.resetMockApi();
+        resetQueryCache();
+      }}>Reset</Button>
+    </div>
+  );
+}
+
+function useSummary() {
+  const dealerId = useCurrentDealer();
+  const query = useQuery(queryKeys.summary(dealerId), (signal) => sequenceApi.getSummary(dealerId, { signal }));
+
+  useRefetchOnLiveChange(query.refresh);
+
+  return { data: query.data ?? null, loading: query.loading, error: errorText(query.error, "Failed to load summary"), refresh: query.refresh };
+}
+
+function useEscalations() {
+  const dealerId = useCurrentDealer();
+  const query = useQuery(queryKeys.escalations(dealerId), (signal) => sequenceApi.listEscalations(dealerId, { signal }));
+
+  useRefetchOnLiveChange(query.refresh);
+
+  return { data: query.data ?? NO_ESCALATIONS, loading: query.loading, error: errorText(query.error, "Failed to load escalations"), refresh: query.refresh };
+}
+
+function useTimelines() {
+  const dealerId = useCurrentDealer();
+  const query = useQuery(queryKeys.timelines(dealerId), (signal) => sequenceApi.listTimelines(dealerId, { signal }));
+
+  useRefetchOnLiveChange(query.refresh);
+
+  return { data: query.data ?? NO_TIMELINES, loading: query.loading, error: errorText(query.error, "Failed to load timelines"), refresh: query.refresh };
+}
+
+function useCadences() {
+  const query = useQuery(queryKeys.cadenceLists, (signal) => sequenceApi.listCadences({ signal }));
+
+  return { data: query.data ?? NO_CADENCES, loading: query.loading, error: errorText(query.error, "Failed to load cadences"), refresh: query.refresh };
+}
+
+function useDealers() {
+  const query = useQuery(queryKeys.dealers, (signal) => sequenceApi.listDealers({ signal }), { staleMs: DEALERS_STALE_MS });
+
+  return { data: query.data ?? NO_DEALERS, loading: query.loading, error: errorText(query.error, "Failed to load dealers"), refresh: query.refresh };
+}
+
+function useDoNotContact() {
+  const query = useQuery(queryKeys.doNotContact, (signal) => sequenceApi.listDoNotContact({ signal }));
+
+  return { data: query.data ?? NO_DO_NOT_CONTACT, loading: query.loading, error: errorText(query.error, "Failed to load the do-not-contact list"), refresh: query.refresh };
+}
+
+function dealerName(dealers: Dealer[], id: string) {
+  return dealers.find((dealer) => dealer.id === id)?.name ?? id;
+}
+
+function useCadence(id: string | null | undefined, version: number | null | undefined) {
+  const query = useQuery(id ? queryKeys.cadence(id, version) : null, (signal) => sequenceApi.getCadence(id!, version, { signal }));
+  return query.data ?? null;
+}
+
+function DealerPicker() {
+  const dealerId = useCurrentDealer();
+  const { data: dealers } = useDealers();
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-white/70">
+      Dealer:
+      <select value={dealerId ?? ""} onChange={(e) => setCurrentDealer(e.target.value || null)} className="h-8 rounded-lg border border-white/10 bg-[#120D20] px-2 text-sm text-white">
+        <option value="">All dealers</option>
+        {dealerId && !dealers.some((dealer) => dealer.id === dealerId) ? <option value={dealerId}>{dealerId}</option> : null}
+        {dealers.map((dealer) => <option key={dealer.id} value={dealer.id}>{dealer.name}</option>)}
+      </select>
+    </label>
+  );
+}
+
+function UserBadge() {
+  const session = useSession();
+  if (!session) return null;
+  const { user } = session;
+
+  return (
+    <div className="mb-3 flex flex-col items-center gap-1">
+      <div className="rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/70" title={`${user.name} · ${user.email} · ${user.role}`}>{initials(user.name)}</div>
+      <button type="button" onClick={() => void authApi.logout()} className="rounded-lg p-1 text-white/50 hover:bg-white/5 hover:text-white/80" title="Sign out">
+        <LogOut size={14} />
+      </button>
+    </div>
+  );
 }
 
 function Shell({ active, onNavigate, children }: { active: SidebarKey; onNavigate: (k: SidebarKey) => void; children: React.ReactNode }) {
@@ -194,9 +609,7 @@ function Shell({ active, onNavigate, children }: { active: SidebarKey; onNavigat
     <div className={cx("min-h-screen", TOKENS.bg, "text-white")}>
       <div className={cx("fixed left-0 top-0 z-40 h-screen w-[76px] border-r", TOKENS.border)} style={{ background: "rgba(15,11,26,0.95)" }}>
         <div className="flex h-full flex-col p-3">
-          <div className="mb-3 flex justify-center">
-            <div className="rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/70">JG</div>
-          </div>
+          <UserBadge />
           <nav className="space-y-1">
             {SIDEBAR.map((it) => {
               const Icon = it.icon;
@@ -220,8 +633,12 @@ function Shell({ active, onNavigate, children }: { active: SidebarKey; onNavigat
       <div className="pl-[76px]">
         <div className="sticky top-0 z-40 border-b border-white/10 bg-[#0A0711]/85 backdrop-blur">
           <div className="mx-auto flex max-w-[1200px] items-center justify-between px-4 py-3">
-            <div className="text-sm font-medium">Carpay / Collect</div>
-            <div className="text-sm text-white/70">Dealer: <span className="text-white">ABC Motors</span></div>
+            <div className="flex items-center gap-3">
+              <div className="text-sm font-medium">Carpay / Collect</div>
+              <LiveIndicator />
+            </div>
+            {mockBackend ? <MockClockControls backend={mockBackend} /> : null}
+            <DealerPicker />
           </div>
         </div>
         <div className="mx-auto max-w-[1200px] px-4 pb-10 pt-6">{children}</div>
@@ -230,6 +647,40 @@ function Shell({ active, onNavigate, children }: { active: SidebarKey; onNavigat
   );
 }
 
+function ExportButtons({ onExport, disabled }: { onExport: (format: ExportFormat) => void; disabled?: boolean }) {
+  return (
+    <div className="flex items-center gap-1">
+      {(["csv", "json"] as ExportFormat[]).map((format) => (
+        <Button key={format} variant="outline" disabled={disabled} className="border-white/10 bg-white/5" onClick={() => onExport(format)} title={`Export ${format.toUpperCase()}`}>
+          <Download size={14} /> {format.toUpperCase()}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+// Loads the next page when scrolled into view; the button covers browsers without IntersectionObserver.
+function LoadMore({ hasMore, loading, onLoadMore }: { hasMore: boolean; loading: boolean; onLoadMore: () => void }) {
+  const ref = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const node = ref.current;
+    if (!node || !hasMore || typeof IntersectionObserver === "undefined") return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+    });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore]);
+
+  if (!hasMore) return null;
+  return (
+    <div ref={ref} className="flex justify-center py-3">
+      <Button variant="outline" disabled={loading} className="border-white/10 bg-white/5" onClick={onLoadMore}>{loading ? "Loading..." : "Load more"}</Button>
+    </div>
+  );
+}
+
 function StatusPill({ status, currentDay }: { status: EnrollmentStatus; currentDay: number }) {
   const pill = statusStyle(status);
   return (
@@ -240,22 +691,66 @@ function StatusPill({ status, currentDay }: { status: EnrollmentStatus; currentD
   );
 }
 
+const INTAKE_FIELD_CLASS = "border-white/10 bg-white/5";
+const DUPLICATE_LOOKUP_DEBOUNCE_MS = 400;
+const DUPLICATE_FIELD_LABELS: Record<DuplicateField, string> = { borrowerId: "borrower ID", phone: "phone" };
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <div className="mt-1 text-xs text-red-300">{message}</div> : null;
+}
+
+// Looks up existing enrollments as the borrower ID / phone are typed; waits until there's something to match on.
+function useDuplicateEnrollments(borrowerId: string, dealerId: string, phone: string) {
+  const candidate = {
+    borrowerId: useDebouncedValue(borrowerId.trim(), DUPLICATE_LOOKUP_DEBOUNCE_MS),
+    dealerId: useDebouncedValue(dealerId.trim(), DUPLICATE_LOOKUP_DEBOUNCE_MS),
+    phone: useDebouncedValue(toE164(phone) ?? "", DUPLICATE_LOOKUP_DEBOUNCE_MS),
+  };
+  const ready = !!(candidate.phone || (candidate.borrowerId && candidate.dealerId));
+  const query = useQuery(ready ? queryKeys.duplicates(candidate) : null, (signal) => sequenceApi.findDuplicates(candidate, { signal }));
+
+  return { data: query.data ?? NO_DUPLICATES, fetching: query.fetching };
+}
+
 function EnrollModal({ open, onClose, onDone }: { open: boolean; onClose: () => void; onDone: () => void }) {
-  const [form, setForm] = useState<CreateEnrollmentPayload>({ borrowerId: "", dealerId: "", phone: "", email: "" });
+  const currentDealer = useCurrentDealer();
+  const [form, setForm] = useState<IntakeForm>(() => emptyIntakeForm(currentDealer ?? ""));
+  const [touched, setTouched] = useState<Partial<Record<keyof IntakeForm, boolean>>>({});
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { data: cadences } = useCadences();
+  const { data: doNotContact } = useDoNotContact();
+  const duplicates = useDuplicateEnrollments(form.borrowerId, form.dealerId, form.phone);
 
   if (!open) return null;
 
+  const { payload, errors } = validateIntake(form);
+  const blocked = findDoNotContact(doNotContact, form);
+  const locale = borrowerLocale(form);
+  const normalizedPhone = toE164(form.phone);
+  const openDuplicate = duplicates.data.find((match) => isOpenEnrollment(match.enrollment.status));
+
+  const set = (field: keyof IntakeForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => setForm((v) => ({ ...v, [field]: e.target.value }));
+  const touch = (field: keyof IntakeForm) => () => setTouched((v) => ({ ...v, [field]: true }));
+  const fieldError = (field: keyof IntakeForm) => (touched[field] ? errors[field] : undefined);
+
+  const openExisting = (id: string) => {
+    onClose();
+    navigate(enrollmentPath(id));
+  };
+
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setTouched({ borrowerId: true, dealerId: true, phone: true, email: true, amountDue: true });
+    if (!payload || blocked || openDuplicate) return;
     setSaving(true);
     try {
-      await sequenceApi.createEnrollment(form);
+      await sequenceApi.createEnrollment(payload);
       setError(null);
       onDone();
       onClose();
-      setForm({ borrowerId: "", dealerId: "", phone: "", email: "" });
+      setForm(emptyIntakeForm(currentDealer ?? ""));
+      setTouched({});
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unable to enroll borrower");
     } finally {
@@ -265,18 +760,79 @@ function EnrollModal({ open, onClose, onDone }: { open: boolean; onClose: () =>
 
   return (
     <div className="fixed inset-0 z-50 grid place-items-center bg-black/60 p-4">
-      <Card className={cx("w-full max-w-xl rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+      <Card className={cx("flex max-h-[90vh] w-full max-w-xl flex-col rounded-2xl border", TOKENS.border, TOKENS.panel)}>
         <CardHeader><CardTitle>Enroll borrower in day 0–10 sequence</CardTitle></CardHeader>
-        <CardContent>
-          <form className="space-y-3" onSubmit={onSubmit}>
-            <Input required value={form.borrowerId} onChange={(e) => setForm((v) => ({ ...v, borrowerId: e.target.value }))} placeholder="Borrower ID" className="border-white/10 bg-white/5" />
-            <Input required value={form.dealerId} onChange={(e) => setForm((v) => ({ ...v, dealerId: e.target.value }))} placeholder="Dealer ID" className="border-white/10 bg-white/5" />
-            <Input required value={form.phone} onChange={(e) => setForm((v) => ({ ...v, phone: e.target.value }))} placeholder="Phone" className="border-white/10 bg-white/5" />
-            <Input value={form.email ?? ""} onChange={(e) => setForm((v) => ({ ...v, email: e.target.value }))} placeholder="Email (optional)" className="border-white/10 bg-white/5" />
+        <CardContent className="min-h-0 flex-1 overflow-y-auto">
+          <form className="space-y-3" noValidate onSubmit={onSubmit}>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Input value={form.borrowerId} onChange={set("borrowerId")} onBlur={touch("borrowerId")} placeholder="Borrower ID" className={INTAKE_FIELD_CLASS} />
+                <FieldError message={fieldError("borrowerId")} />
+              </div>
+              <div>
+                <Input value={form.dealerId} onChange={set("dealerId")} onBlur={touch("dealerId")} placeholder="Dealer ID" className={INTAKE_FIELD_CLASS} />
+                <FieldError message={fieldError("dealerId")} />
+              </div>
+            </div>
+            <div>
+              <Input type="tel" value={form.phone} onChange={set("phone")} onBlur={touch("phone")} placeholder="Phone" className={INTAKE_FIELD_CLASS} />
+              {fieldError("phone") ? <FieldError message={fieldError("phone")} /> : normalizedPhone && normalizedPhone !== form.phone.trim() ? <div className="mt-1 text-xs text-white/50">Saved as {normalizedPhone}</div> : null}
+            </div>
+            <div>
+              <Input type="email" value={form.email} onChange={set("email")} onBlur={touch("email")} placeholder="Email (optional)" className={INTAKE_FIELD_CLASS} />
+              <FieldError message={fieldError("email")} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <Input value={form.vehicle} onChange={set("vehicle")} placeholder="Vehicle (optional)" className={INTAKE_FIELD_CLASS} />
+              <div>
+                <Input inputMode="decimal" value={form.amountDue} onChange={set("amountDue")} onBlur={touch("amountDue")} placeholder="Amount due (optional)" className={INTAKE_FIELD_CLASS} />
+                <FieldError message={fieldError("amountDue")} />
+              </div>
+            </div>
+            <select value={form.addressState} onChange={set("addressState")} className="h-9 w-full rounded-lg border border-white/10 bg-[#120D20] px-2 text-sm">
+              <option value="">Address state (optional; otherwise taken from the phone)</option>
+              {US_STATES.map((state) => <option key={state} value={state}>{state}</option>)}
+            </select>
+            <div className="text-xs text-white/50">
+              {locale ? `Contact rules: ${locale.state} (from ${locale.source}) · ${describeRule(locale.rule)}` : "Timezone unknown until a phone number or address state is entered."}
+            </div>
+            <select value={form.cadenceId} onChange={set("cadenceId")} className="h-9 w-full rounded-lg border border-white/10 bg-[#120D20] px-2 text-sm">
+              <option value="">Dealer default cadence</option>
+              {cadences.map((cadence) => <option key={cadence.id} value={cadence.id}>{cadence.name} · v{cadence.version}</option>)}
+            </select>
+            {blocked ? (
+              <div className="flex items-start gap-2 rounded-xl border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-200">
+                <ShieldAlert size={16} className="mt-0.5 shrink-0" />
+                <div>This borrower is on the do-not-contact list ({blocked.reason}; added by {blocked.addedBy} on {formatDate(blocked.addedAt)}) and can't be enrolled.</div>
+              </div>
+            ) : null}
+            {duplicates.data.length ? (
+              <div className={cx("rounded-xl border p-3 text-sm", openDuplicate ? "border-red-400/30 bg-red-500/10 text-red-200" : "border-amber-400/30 bg-amber-500/10 text-amber-100")}>
+                <div className="flex items-start gap-2">
+                  <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+                  <div>
+                    {openDuplicate
+                      ? "This borrower already has an open enrollment. Work the existing record instead of enrolling again."
+                      : "This borrower has been enrolled before. Check the earlier records before enrolling again."}
+                  </div>
+                </div>
+                <div className="mt-2 space-y-1">
+                  {duplicates.data.map(({ enrollment, matchedOn }) => (
+                    <button key={enrollment.id} type="button" onClick={() => openExisting(enrollment.id)} className="flex w-full items-center justify-between gap-3 rounded-lg bg-black/20 px-2 py-1.5 text-left hover:bg-black/30">
+                      <span className="truncate">
+                        <span className="font-medium text-white">{enrollment.borrowerId}</span>
+                        <span className="text-white/55"> · {enrollment.dealerId} · matched on {matchedOn.map((field) => DUPLICATE_FIELD_LABELS[field]).join(" and ")}</span>
+                      </span>
+                      <StatusPill status={enrollment.status} currentDay={enrollment.currentDay} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : null}
             {error ? <div className="text-sm text-red-300">{error}</div> : null}
             <div className="flex justify-end gap-2">
               <Button type="button" variant="outline" className="border-white/10 bg-white/5" onClick={onClose}>Cancel</Button>
-              <Button type="submit" disabled={saving} style={{ backgroundColor: TOKENS.carpayBlue }}>{saving ? "Enrolling..." : "Enroll"}</Button>
+              <Button type="submit" disabled={saving || !!blocked || !!openDuplicate} style={{ backgroundColor: TOKENS.carpayBlue }}>{saving ? "Enrolling..." : "Enroll"}</Button>
             </div>
           </form>
         </CardContent>
@@ -285,122 +841,1615 @@ function EnrollModal({ open, onClose, onDone }: { open: boolean; onClose: () =>
   );
 }
 
-function DashboardPage({ onOpenCustomer }: { onOpenCustomer: (id: string) => void }) {
-  const [mode, setMode] = useState<EnrollmentStatus>("ACTIVE");
-  const { data, loading, error, refresh } = useEnrollments(mode);
+const IMPORT_CONCURRENCY = 4;
 
-  return (
-    <div className="space-y-4">
-      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
-        {STATUS_ORDER.map((status) => (
-          <button key={status} onClick={() => setMode(status)} className="text-left">
-            <Card className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel, mode === status ? "ring-1 ring-blue-500" : "")}> 
-              <CardHeader className="pb-1"><CardTitle className="text-sm">{status}</CardTitle></CardHeader>
-              <CardContent><div className="text-3xl">{status === mode ? data.length : "—"}</div></CardContent>
-            </Card>
-          </button>
-        ))}
-      </div>
+type ImportResultRow = {
+  row: number;
+  borrowerId: string;
+  dealerId: string;
+  status: "created" | "failed" | "skipped";
+  enrollmentId: string;
+  error: string;
+};
 
-      <Card className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel)}>
-        <CardHeader className="pb-2">
-          <CardTitle className="flex items-center justify-between">Work Queue <Button variant="outline" onClick={refresh} className="border-white/10 bg-white/5">Refresh</Button></CardTitle>
+function BulkImportModal({ open, onClose, onDone }: { open: boolean; onClose: () => void; onDone: () => void }) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [header, setHeader] = useState<string[]>([]);
+  const [body, setBody] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<ImportResultRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const rows = useMemo(() => (mapping ? validateImportRows(body, mapping) : []), [body, mapping]);
+
+  if (!open) return null;
+
+  const missing = mapping ? missingRequiredFields(mapping) : [];
+  const valid = rows.filter((row) => row.payload);
+  const submitting = progress != null && results == null;
+
+  const reset = () => {
+    setFileName(null);
+    setHeader([]);
+    setBody([]);
+    setMapping(null);
+    setProgress(null);
+    setResults(null);
+    setError(null);
+  };
+
+  const close = () => {
+    if (submitting) return;
+    reset();
+    onClose();
+  };
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return;
+    reset();
+    const parsed = parseCsv(await file.text());
+    if (parsed.length < 2) {
+      setError("The file needs a header row and at least one data row.");
+      return;
+    }
+    setFileName(file.name);
+    setHeader(parsed[0]);
+    setBody(parsed.slice(1));
+    setMapping(guessMapping(parsed[0]));
+  };
+
+  const submit = async () => {
+    setProgress({ done: 0, total: valid.length });
+    const outcomes = await runWithConcurrency(
+      valid,
+      IMPORT_CONCURRENCY,
+      (row) => sequenceApi.createEnrollment(row.payload!, { source: "bulk-import" }),
+      (done, total) => setProgress({ done, total }),
+    );
+    const byRow = new Map(outcomes.map((outcome) => [outcome.item.rowNumber, outcome]));
+    setResults(
+      rows.map((row) => {
+        const outcome = byRow.get(row.rowNumber);
+        const base = { row: row.rowNumber, borrowerId: row.borrowerId, dealerId: row.dealerId };
+        if (!outcome) return { ...base, status: "skipped", enrollmentId: "", error: row.errors.join("; ") };
+        if (outcome.ok) return { ...base, status: "created", enrollmentId: outcome.value.id, error: "" };
+        return { ...base, status: "failed", enrollmentId: "", error: outcome.error };
+      }),
+    );
+    onDone();
+  };
+
+  const downloadResults = () => {
+    if (!results) return;
+    const csv = toCsv(results, ["row", "borrowerId", "dealerId", "status", "enrollmentId", "error"]);
+    downloadFile(`${(fileName ?? "import").replace(/\.csv$/i, "")}-results.csv`, csv, "text/csv");
+  };
+
+  const failedCount = results?.filter((r) => r.status !== "created").length ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/60 p-4">
+      <Card className={cx("flex max-h-[90vh] w-full max-w-4xl flex-col rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+        <CardHeader>
+          <CardTitle>Bulk import enrollments</CardTitle>
+          <div className="text-sm text-white/55">CSV columns: borrowerId, dealerId, phone, email, vehicle, amountDue. Invalid rows are skipped and listed in the results file.</div>
         </CardHeader>
-        <CardContent>
-          {loading ? <div className="space-y-2">{Array.from({ length: 4 }).map((_, i) => <div key={i} className="h-10 animate-pulse rounded bg-white/10" />)}</div> : null}
-          {error ? <div className="text-red-300">{error}</div> : null}
-          {!loading && !error ? (
-            <div className="divide-y divide-white/10">
-              {data.map((row) => (
-                <div key={row.id} className="grid grid-cols-12 items-center gap-2 py-3 text-sm">
-                  <button className="col-span-6 text-left" onClick={() => onOpenCustomer(row.id)}>
-                    <div className="font-medium">Borrower {row.borrowerId}</div>
-                    <div className="text-xs text-white/50">Dealer {row.dealerId}</div>
-                  </button>
-                  <div className="col-span-3"><StatusPill status={row.status} currentDay={row.currentDay} /></div>
-                  <div className="col-span-3 text-right text-white/70">Next: {formatDate(row.nextScheduledAt)}</div>
-                </div>
-              ))}
-              {!data.length ? <div className="py-6 text-white/55">No enrollments found for this status.</div> : null}
+        <CardContent className="min-h-0 flex-1 space-y-3 overflow-y-auto">
+          {!results ? (
+            <input type="file" accept=".csv,text/csv" disabled={submitting} onChange={(e) => void onFile(e.target.files?.[0])} className="block w-full text-sm text-white/70 file:mr-3 file:rounded-lg file:border-0 file:bg-white/10 file:px-3 file:py-2 file:text-white" />
+          ) : null}
+
+          {mapping && !results ? (
+            <>
+              <div className="grid grid-cols-2 gap-2 md:grid-cols-3">
+                {IMPORT_FIELDS.map((field) => (
+                  <label key={field} className="text-xs text-white/60">
+                    {field}{REQUIRED_IMPORT_FIELDS.includes(field) ? " *" : ""}
+                    <select
+                      value={mapping[field] ?? ""}
+                      disabled={submitting}
+                      onChange={(e) => setMapping((m) => (m ? { ...m, [field]: e.target.value === "" ? null : Number(e.target.value) } : m))}
+                      className="mt-1 h-9 w-full rounded-lg border border-white/10 bg-[#120D20] px-2 text-sm text-white"
+                    >
+                      <option value="">Not mapped</option>
+                      {header.map((column, index) => <option key={index} value={index}>{column || `Column ${index + 1}`}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <div className="text-sm text-white/70">
+                Dry run: {rows.length} rows · <span className="text-emerald-300">{valid.length} valid</span> · <span className="text-red-300">{rows.length - valid.length} invalid</span>
+              </div>
+              <div className="max-h-72 overflow-y-auto rounded-xl border border-white/10">
+                {rows.map((row) => (
+                  <div key={row.rowNumber} className="grid grid-cols-12 gap-2 border-b border-white/5 px-3 py-2 text-xs">
+                    <div className="col-span-1 text-white/50">#{row.rowNumber}</div>
+                    <div className="col-span-3 truncate">{row.borrowerId || "—"}</div>
+                    <div className="col-span-3 truncate text-white/70">{row.dealerId || "—"}</div>
+                    <div className={cx("col-span-5", row.errors.length ? "text-red-300" : "text-emerald-300")}>{row.errors.length ? row.errors.join("; ") : "Ready"}</div>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : null}
+
+          {progress && !results ? <div className="text-sm text-white/70">Submitting {progress.done}/{progress.total}…</div> : null}
+
+          {results ? (
+            <div className="space-y-2 text-sm">
+              <div>
+                {results.length - failedCount} created · {results.filter((r) => r.status === "failed").length} failed · {results.filter((r) => r.status === "skipped").length} skipped
+              </div>
+              <div className="max-h-72 overflow-y-auto rounded-xl border border-white/10">
+                {results.filter((r) => r.status !== "created").map((r) => (
+                  <div key={r.row} className="grid grid-cols-12 gap-2 border-b border-white/5 px-3 py-2 text-xs">
+                    <div className="col-span-1 text-white/50">#{r.row}</div>
+                    <div className="col-span-3 truncate">{r.borrowerId || "—"}</div>
+                    <div className="col-span-2 uppercase text-white/60">{r.status}</div>
+                    <div className="col-span-6 text-red-300">{r.error}</div>
+                  </div>
+                ))}
+                {!failedCount ? <div className="px-3 py-2 text-xs text-white/55">Every row was created.</div> : null}
+              </div>
             </div>
           ) : null}
+
+          {error ? <div className="text-sm text-red-300">{error}</div> : null}
         </CardContent>
+        <div className="flex justify-end gap-2 border-t border-white/10 p-4">
+          {results ? (
+            <Button variant="outline" className="border-white/10 bg-white/5" onClick={downloadResults}>Download results</Button>
+          ) : null}
+          <Button type="button" variant="outline" className="border-white/10 bg-white/5" disabled={submitting} onClick={close}>{results ? "Close" : "Cancel"}</Button>
+          {!results ? (
+            <Button disabled={!valid.length || missing.length > 0 || submitting} style={{ backgroundColor: TOKENS.carpayBlue }} onClick={() => void submit()}>
+              {submitting ? "Importing..." : missing.length ? `Map ${missing.join(", ")}` : `Import ${valid.length} rows`}
+            </Button>
+          ) : null}
+        </div>
       </Card>
     </div>
   );
 }
 
-function CustomersPage({ onOpenCustomer }: { onOpenCustomer: (id: string) => void }) {
-  const [status, setStatus] = useState<EnrollmentStatus>("ACTIVE");
-  const [query, setQuery] = useState("");
-  const [showEnroll, setShowEnroll] = useState(false);
-  const { data, loading, error, refresh } = useEnrollments(status);
+// Day-over-day change; `upIsGood` decides whether a rise is shown green or red.
+function Trend({ current, previous, upIsGood = true, format = String }: { current: number; previous: number | null | undefined; upIsGood?: boolean; format?: (value: number) => string }) {
+  if (previous == null) return <span className="text-xs text-white/40">No data for yesterday</span>;
+  const delta = current - previous;
+  if (delta === 0) return <span className="text-xs text-white/50">No change vs. yesterday</span>;
+  const good = delta > 0 === upIsGood;
+  const Icon = delta > 0 ? ArrowUp : ArrowDown;
+  return (
+    <span className={cx("inline-flex items-center gap-1 text-xs", good ? "text-emerald-300" : "text-red-300")}>
+      <Icon size={12} /> {format(Math.abs(delta))} vs. yesterday
+    </span>
+  );
+}
 
-  const filtered = useMemo(() => {
-    const term = query.trim().toLowerCase();
-    if (!term) return data;
-    return data.filter((e) => [e.borrowerId, e.dealerId, e.id].some((value) => value.toLowerCase().includes(term)));
-  }, [data, query]);
+const FOLLOW_UP_STYLES: Record<FollowUpStatus, string> = {
+  overdue: "bg-red-500/15 text-red-300",
+  due: "bg-amber-400/15 text-amber-200",
+  upcoming: "bg-white/10 text-white/70",
+};
 
-  return (
-    <div className="space-y-4">
-      <EnrollModal open={showEnroll} onClose={() => setShowEnroll(false)} onDone={refresh} />
-      <Card className={cx("rounded-2xl border p-4", TOKENS.border, TOKENS.panel)}>
-        <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
-          <div className="text-lg font-semibold">Enrollments</div>
-          <div className="flex items-center gap-2">
-            <Button onClick={() => setShowEnroll(true)} style={{ backgroundColor: TOKENS.carpayBlue }}>Enroll</Button>
-            <Button variant="outline" onClick={refresh} className="border-white/10 bg-white/5">Refresh</Button>
-          </div>
-        </div>
+// Follow-ups agents set on their notes, due today or earlier, at the top of the work queue.
+function FollowUpQueue({ onOpenCustomer }: { onOpenCustomer: (id: string) => void }) {
+  const { data } = useTimelines();
+  const followUps = useMemo(() => buildFollowUps(data, serverNow()), [data]);
+  const due = followUps.filter((item) => item.status !== "upcoming");
+  const upcoming = followUps.length - due.length;
 
-        <div className="mb-3 flex flex-wrap gap-2">
-          {STATUS_ORDER.map((item) => (
-            <Button key={item} onClick={() => setStatus(item)} variant="outline" className={cx("border-white/10 bg-white/5", item === status && "ring-1 ring-blue-500")}>{item}</Button>
+  if (!followUps.length) return null;
+
+  return (
+    <div className="mb-3 rounded-xl border border-white/10 bg-white/5 p-3">
+      <div className="mb-1 flex items-center justify-between text-sm">
+        <div className="flex items-center gap-2 font-medium"><CalendarClock size={14} /> Follow-ups due</div>
+        <div className="text-xs text-white/50">{upcoming ? `${upcoming} scheduled later` : null}</div>
+      </div>
+      {due.length ? (
+        <div className="divide-y divide-white/10">
+          {due.map((item) => (
+            <button key={item.enrollment.id} type="button" onClick={() => onOpenCustomer(item.enrollment.id)} className="grid w-full grid-cols-12 items-center gap-2 py-2 text-left text-sm">
+              <div className="col-span-3">
+                <div className="font-medium">Borrower {item.enrollment.borrowerId}</div>
+                <div className="text-xs text-white/50">Enrollment {item.enrollment.id}</div>
+              </div>
+              <div className="col-span-6 min-w-0">
+                <div className="truncate text-white/80">{item.note.body}</div>
+                <div className="truncate text-xs text-white/50">{AGENT_ACTIVITY_LABELS[item.note.kind]} · {item.note.author} · {formatDate(item.note.at)}</div>
+              </div>
+              <div className="col-span-3 text-right">
+                <span className={cx("rounded-full px-2 py-0.5 text-xs", FOLLOW_UP_STYLES[item.status])}>{item.status === "overdue" ? `Overdue · ${item.dueDate}` : "Today"}</span>
+              </div>
+            </button>
           ))}
-          <div className="relative ml-auto">
-            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-white/50" />
-            <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search enrollment" className="h-9 w-72 border-white/10 bg-white/5 pl-9" />
-          </div>
         </div>
+      ) : (
+        <div className="text-xs text-white/55">Nothing due today.</div>
+      )}
+    </div>
+  );
+}
+
+type BulkAction = "suppress" | "escalate" | "reassign";
+
+const BULK_ACTION_LABELS: Record<BulkAction, { label: string; running: string; done: string }> = {
+  suppress: { label: "Suppress", running: "Suppressing", done: "suppressed" },
+  escalate: { label: "Escalate", running: "Escalating", done: "escalated" },
+  reassign: { label: "Reassign", running: "Reassigning", done: "reassigned" },
+};
+
+const BULK_CONCURRENCY = 4;
+
+type BulkSummary = { action: BulkAction; input: string; at: string; results: Array<BatchResult<Enrollment, Enrollment>> };
+
+// Selected rows keyed by id, so a row that drops out of the list (moved status, new page) stays selected.
+// `allMatching` stands in for every enrollment the list's filters match, loaded or not, less the `excluded`
+// ids unchecked since.
+type BulkSelection = { scope: string; rows: ReadonlyMap<string, Enrollment>; allMatching: boolean; excluded: ReadonlySet<string> };
+
+const NO_SELECTED_ROWS: ReadonlyMap<string, Enrollment> = new Map();
+const NO_EXCLUDED_IDS: ReadonlySet<string> = new Set();
+
+// Changing the list's filters (`scope`) starts a fresh selection.
+function useBulkSelection(scope: string, loaded: Enrollment[]) {
+  const empty: BulkSelection = { scope, rows: NO_SELECTED_ROWS, allMatching: false, excluded: NO_EXCLUDED_IDS };
+  const [state, setState] = useState<BulkSelection>(empty);
+  const selection = state.scope === scope ? state : empty;
+  const set = (rows: Enrollment[]) => setState({ ...empty, rows: new Map(rows.map((row) => [row.id, row])) });
+  const exclude = (excluded: ReadonlySet<string>) => setState({ ...empty, allMatching: true, excluded });
+  const isSelected = (id: string) => (selection.allMatching ? !selection.excluded.has(id) : selection.rows.has(id));
+  const allLoadedSelected = loaded.length > 0 && loaded.every((row) => isSelected(row.id));
+
+  return {
+    ...selection,
+    isSelected,
+    allLoadedSelected,
+    toggle: (row: Enrollment) => {
+      if (selection.allMatching) {
+        const excluded = new Set(selection.excluded);
+        if (!excluded.delete(row.id)) excluded.add(row.id);
+        exclude(excluded);
+        return;
+      }
+      const current = [...selection.rows.values()];
+      set(isSelected(row.id) ? current.filter((item) => item.id !== row.id) : [...current, row]);
+    },
+    toggleLoaded: () => {
+      if (allLoadedSelected) set([]);
+      else if (selection.allMatching) exclude(new Set([...selection.excluded].filter((id) => !loaded.some((row) => row.id === id))));
+      else set(loaded);
+    },
+    selectAllMatching: () => exclude(NO_EXCLUDED_IDS),
+    clear: () => set([]),
+  };
+}
+
+function BulkActionBar({
+  selection,
+  loaded,
+  total,
+  fetchAll,
+  exportName,
+  onOpenCustomer,
+  onDone,
+}: {
+  selection: ReturnType<typeof useBulkSelection>;
+  loaded: Enrollment[];
+  total: number | null;
+  fetchAll: () => Promise<Enrollment[]>;
+  exportName: string;
+  onOpenCustomer: (id: string) => void;
+  onDone: () => void;
+}) {
+  const [action, setAction] = useState<BulkAction | null>(null);
+  const [input, setInput] = useState("");
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [summary, setSummary] = useState<BulkSummary | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canSuppress = useCan("suppress");
+  const canEscalate = useCan("escalate");
+  const canAssign = useCan("work-escalations");
+  const running = progress != null;
+  const count = selection.allMatching ? Math.max(0, (total ?? loaded.length) - selection.excluded.size) : selection.rows.size;
+  const available: BulkAction[] = [...(canSuppress ? ["suppress" as const] : []), ...(canEscalate ? ["escalate" as const] : []), ...(canAssign ? ["reassign" as const] : [])];
+
+  const targets = async () => {
+    if (!selection.allMatching) return [...selection.rows.values()];
+    const rows = await fetchAll();
+    return rows.filter((row) => !selection.excluded.has(row.id));
+  };
+
+  const run = async (next: BulkAction) => {
+    const value = input.trim();
+    setError(null);
+    setProgress({ done: 0, total: count });
+    try {
+      const items = await targets();
+      setProgress({ done: 0, total: items.length });
+      const options = { source: "bulk-actions" };
+      const results = await runWithConcurrency(
+        items,
+        BULK_CONCURRENCY,
+        (enrollment) => {
+          if (next === "suppress") return sequenceApi.suppressEnrollment(enrollment.id, { reason: value }, options);
+          if (next === "escalate") return sequenceApi.escalateEnrollment(enrollment.id, { reason: value }, options);
+          return sequenceApi.assignEnrollment(enrollment.id, { assignedTo: value || null }, options);
+        },
+        (done, total) => setProgress({ done, total }),
+      );
+      setSummary({ action: next, input: value, at: new Date().toISOString(), results });
+      setAction(null);
+      setInput("");
+      selection.clear();
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't load the selected enrollments");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const exportSelected = async (format: ExportFormat) => {
+    setExporting(true);
+    setError(null);
+    try {
+      const rows = await targets();
+      exportRows(format, `${exportName}-${toDateInput(new Date())}`, rows.map(enrollmentExportRow), ENROLLMENT_EXPORT_COLUMNS);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const downloadSummary = () => {
+    if (!summary) return;
+    const rows = summary.results.map((result) => ({
+      enrollmentId: result.item.id,
+      borrowerId: result.item.borrowerId,
+      status: result.ok ? "ok" : "failed",
+      error: result.ok ? "" : result.error,
+    }));
+    downloadFile(`bulk-${summary.action}-${toDateInput(new Date(summary.at))}.csv`, toCsv(rows, ["enrollmentId", "borrowerId", "status", "error"]), "text/csv");
+  };
+
+  const failures = summary?.results.filter((result) => !result.ok) ?? [];
+  const needsInput = action === "suppress" || action === "escalate";
+
+  return (
+    <div className="mb-3 space-y-2">
+      {summary ? (
+        <div className={cx("rounded-xl border p-3 text-sm", failures.length ? "border-amber-400/30 bg-amber-400/10" : "border-emerald-400/30 bg-emerald-400/10")}>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              {summary.results.length - failures.length} of {summary.results.length} {BULK_ACTION_LABELS[summary.action].done}
+              {failures.length ? ` · ${failures.length} failed` : ""}
+              <span className="text-white/55">
+                {" "}· {summary.action === "reassign" ? `to ${summary.input || "nobody (unassigned)"}` : `reason: ${summary.input}`} · {formatDate(summary.at)}
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" className="h-8 border-white/10 bg-white/5" onClick={downloadSummary}>Download results</Button>
+              <Button variant="outline" className="h-8 border-white/10 bg-white/5" onClick={() => setSummary(null)}>Dismiss</Button>
+            </div>
+          </div>
+          {failures.length ? (
+            <div className="mt-2 max-h-48 divide-y divide-white/10 overflow-y-auto">
+              {failures.map((result) => (
+                <div key={result.item.id} className="grid grid-cols-12 gap-2 py-1.5 text-xs">
+                  <button type="button" onClick={() => onOpenCustomer(result.item.id)} className="col-span-4 truncate text-left hover:underline">Borrower {result.item.borrowerId} · {result.item.id}</button>
+                  <div className="col-span-8 text-red-300">{result.ok ? null : result.error}</div>
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2 text-white/70">
+          <input type="checkbox" className="h-4 w-4 accent-blue-500" disabled={running || !loaded.length} checked={selection.allLoadedSelected} onChange={selection.toggleLoaded} />
+          {count ? `${count} selected` : "Select"}
+        </label>
+        {selection.allLoadedSelected && !selection.allMatching && total != null && total > loaded.length ? (
+          <button type="button" disabled={running} className="text-blue-300 hover:underline" onClick={selection.selectAllMatching}>Select all {total} matching</button>
+        ) : null}
+        {count ? (
+          <>
+            <button type="button" disabled={running} className="text-white/55 hover:underline" onClick={selection.clear}>Clear</button>
+            <div className="ml-auto flex flex-wrap items-center gap-2">
+              {available.map((item) => (
+                <Button key={item} variant="outline" disabled={running} className={cx("h-8 border-white/10 bg-white/5", action === item && "ring-1 ring-blue-500")} onClick={() => setAction(action === item ? null : item)}>
+                  {BULK_ACTION_LABELS[item].label}
+                </Button>
+              ))}
+              <ExportButtons disabled={running || exporting} onExport={(format) => void exportSelected(format)} />
+            </div>
+          </>
+        ) : null}
+      </div>
+
+      {action && count ? (
+        <form
+          className="flex flex-wrap items-center gap-2 rounded-xl border border-white/10 bg-white/5 p-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void run(action);
+          }}
+        >
+          <Input
+            autoFocus
+            required={needsInput}
+            disabled={running}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={needsInput ? `Reason for all ${count} (required)` : "Assign to (blank to unassign)"}
+            className="h-9 w-80 border-white/10 bg-[#120D20]"
+          />
+          <Button type="submit" disabled={running || (needsInput && !input.trim())} style={{ backgroundColor: action === "escalate" ? TOKENS.red : TOKENS.carpayBlue }}>
+            {progress ? `${BULK_ACTION_LABELS[action].running} ${progress.done}/${progress.total}…` : `${BULK_ACTION_LABELS[action].label} ${count}`}
+          </Button>
+          <Button type="button" variant="outline" disabled={running} className="border-white/10 bg-white/5" onClick={() => setAction(null)}>Cancel</Button>
+          {progress ? (
+            <div className="h-1.5 w-full overflow-hidden rounded-full bg-white/10">
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+            </div>
+          ) : null}
+        </form>
+      ) : null}
+
+      {error ? <div className="text-sm text-red-300">{error}</div> : null}
+    </div>
+  );
+}
+
+function DashboardPage({ onOpenCustomer }: { onOpenCustomer: (id: string) => void }) {
+  const [params, setParams] = useSearchParams();
+  const mode = parseStatus(params.get("status"));
+  const setMode = (status: EnrollmentStatus) => setParams({ status: status === "ACTIVE" ? null : status });
+  const { data, total, hasMore, loading, loadingMore, error, refresh, loadMore } = useEnrollments(mode);
+  const { data: summary, error: summaryError, refresh: refreshSummary } = useSummary();
+  const dealerId = useCurrentDealer();
+  const { data: dealers } = useDealers();
+  const selection = useBulkSelection(`${mode}|${dealerId ?? ""}`, data);
+
+  const refreshAll = () => {
+    void refresh();
+    void refreshSummary();
+  };
+
+  const metrics = summary
+    ? [
+        { label: "Touches due today", value: String(summary.touchesDueToday), trend: <Trend current={summary.touchesDueToday} previous={summary.previous?.touchesDueToday} /> },
+        { label: "Overdue touches", value: String(summary.overdue), trend: <Trend current={summary.overdue} previous={summary.previous?.overdue} upIsGood={false} /> },
+        {
+          label: "Outstanding amount due",
+          value: formatCurrency(summary.amountDueOutstanding),
+          trend: <Trend current={summary.amountDueOutstanding} previous={summary.previous?.amountDueOutstanding} upIsGood={false} format={formatCurrency} />,
+        },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        {STATUS_ORDER.map((status) => (
+          <button key={status} onClick={() => setMode(status)} className="text-left">
+            <Card className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel, mode === status ? "ring-1 ring-blue-500" : "")}> 
+              <CardHeader className="pb-1"><CardTitle className="text-sm">{status}</CardTitle></CardHeader>
+              <CardContent>
+                <div className="text-3xl">{summary ? summary.counts[status] : "—"}</div>
+                {summary ? <Trend current={summary.counts[status]} previous={summary.previous?.counts[status]} upIsGood={status !== "ESCALATED"} /> : null}
+              </CardContent>
+            </Card>
+          </button>
+        ))}
+      </div>
+
+      {summaryError ? <div className="text-sm text-red-300">{summaryError}</div> : null}
+      {metrics.length ? (
+        <div className="grid gap-4 md:grid-cols-3">
+          {metrics.map((metric) => (
+            <Card key={metric.label} className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+              <CardHeader className="pb-1"><CardTitle className="text-sm text-white/70">{metric.label}</CardTitle></CardHeader>
+              <CardContent>
+                <div className="text-2xl">{metric.value}</div>
+                {metric.trend}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : null}
+
+      <Card className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center justify-between">Work Queue <Button variant="outline" onClick={refreshAll} className="border-white/10 bg-white/5">Refresh</Button></CardTitle>
+        </CardHeader>
+        <CardContent>
+          <FollowUpQueue onOpenCustomer={onOpenCustomer} />
+          <BulkActionBar
+            selection={selection}
+            loaded={data}
+            total={total}
+            fetchAll={() => sequenceApi.listAllEnrollments(mode, { dealerId })}
+            exportName={`work-queue-${mode.toLowerCase()}`}
+            onOpenCustomer={onOpenCustomer}
+            onDone={refreshAll}
+          />
+          {loading ? <div className="space-y-2">{Array.from({ length: 4 }).map((_, i) => <div key={i} className="h-10 animate-pulse rounded bg-white/10" />)}</div> : null}
+          {error ? <div className="text-red-300">{error}</div> : null}
+          {!loading && !error ? (
+            <div className="divide-y divide-white/10">
+              {data.map((row) => (
+                <div key={row.id} className="grid grid-cols-12 items-center gap-2 py-3 text-sm">
+                  <div className={cx(dealerId ? "col-span-6" : "col-span-4", "flex items-center gap-3")}>
+                    <input type="checkbox" aria-label={`Select enrollment ${row.id}`} className="h-4 w-4 accent-blue-500" checked={selection.isSelected(row.id)} onChange={() => selection.toggle(row)} />
+                    <button className="text-left" onClick={() => onOpenCustomer(row.id)}>
+                      <div className="font-medium">Borrower {row.borrowerId}</div>
+                      <div className="text-xs text-white/50">Enrollment {row.id}</div>
+                    </button>
+                  </div>
+                  {dealerId ? null : <div className="col-span-2 truncate text-white/70">{dealerName(dealers, row.dealerId)}</div>}
+                  <div className="col-span-3"><StatusPill status={row.status} currentDay={row.currentDay} /></div>
+                  <div className="col-span-3 text-right text-white/70">Next: {formatDate(row.nextScheduledAt)}</div>
+                </div>
+              ))}
+              {!data.length ? <div className="py-6 text-white/55">No enrollments found for this status.</div> : null}
+              <LoadMore hasMore={hasMore} loading={loadingMore} onLoadMore={loadMore} />
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function CustomersPage({ onOpenCustomer }: { onOpenCustomer: (id: string) => void }) {
+  const [params, setParams] = useSearchParams();
+  const status = parseStatus(params.get("status"));
+  const query = params.get("q") ?? "";
+  const setStatus = (next: EnrollmentStatus) => setParams({ status: next === "ACTIVE" ? null : next });
+  const setQuery = (next: string) => setParams({ q: next });
+  const [showEnroll, setShowEnroll] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const sort = SORT_OPTIONS.find((option) => option.key === params.get("sort"))?.key ?? "nextScheduledAt";
+  const order: SortOrder = params.get("order") === "desc" ? "desc" : "asc";
+  const q = useDebouncedValue(query.trim(), 300);
+  const { data, total, hasMore, loading, loadingMore, error, refresh, loadMore } = useEnrollments(status, { q, sort, order });
+  const dealerId = useCurrentDealer();
+  const { data: dealers } = useDealers();
+  const canEnroll = useCan("enroll");
+  const selection = useBulkSelection(`${status}|${dealerId ?? ""}|${q}|${sort}|${order}`, data);
+
+  const exportAll = async (format: ExportFormat) => {
+    setExporting(true);
+    setExportError(null);
+    try {
+      const rows = await sequenceApi.listAllEnrollments(status, { dealerId, q, sort, order });
+      exportRows(format, `enrollments-${status.toLowerCase()}-${toDateInput(new Date())}`, rows.map(enrollmentExportRow), ENROLLMENT_EXPORT_COLUMNS);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <EnrollModal key={dealerId ?? "all"} open={showEnroll} onClose={() => setShowEnroll(false)} onDone={refresh} />
+      <BulkImportModal open={showImport} onClose={() => setShowImport(false)} onDone={refresh} />
+      <Card className={cx("rounded-2xl border p-4", TOKENS.border, TOKENS.panel)}>
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="text-lg font-semibold">Enrollments</div>
+            {total != null ? <div className="text-sm text-white/55">{total} matching · showing {data.length}</div> : null}
+          </div>
+          <div className="flex items-center gap-2">
+            {canEnroll ? (
+              <>
+                <Button onClick={() => setShowEnroll(true)} style={{ backgroundColor: TOKENS.carpayBlue }}>Enroll</Button>
+                <Button variant="outline" onClick={() => setShowImport(true)} className="border-white/10 bg-white/5"><Upload size={14} /> Import CSV</Button>
+              </>
+            ) : null}
+            <ExportButtons disabled={loading || exporting || !data.length} onExport={(format) => void exportAll(format)} />
+            <Button variant="outline" onClick={refresh} className="border-white/10 bg-white/5">Refresh</Button>
+          </div>
+        </div>
+        {exportError ? <div className="-mt-2 mb-3 text-sm text-red-300">Export failed: {exportError}</div> : null}
+
+        <div className="mb-3 flex flex-wrap gap-2">
+          {STATUS_ORDER.map((item) => (
+            <Button key={item} onClick={() => setStatus(item)} variant="outline" className={cx("border-white/10 bg-white/5", item === status && "ring-1 ring-blue-500")}>{item}</Button>
+          ))}
+          <div className="ml-auto flex items-center gap-2">
+            <select value={sort} onChange={(e) => setParams({ sort: e.target.value === "nextScheduledAt" ? null : e.target.value })} className="h-9 rounded-lg border border-white/10 bg-[#120D20] px-2 text-sm">
+              {SORT_OPTIONS.map((option) => <option key={option.key} value={option.key}>Sort: {option.label}</option>)}
+            </select>
+            <Button variant="outline" className="border-white/10 bg-white/5" onClick={() => setParams({ order: order === "asc" ? "desc" : null })} title="Toggle sort order">
+              {order === "asc" ? <ArrowUp size={14} /> : <ArrowDown size={14} />}
+            </Button>
+          </div>
+          <div className="relative">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-white/50" />
+            <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search enrollment" className="h-9 w-72 border-white/10 bg-white/5 pl-9" />
+          </div>
+        </div>
+
+        <BulkActionBar
+          selection={selection}
+          loaded={data}
+          total={total}
+          fetchAll={() => sequenceApi.listAllEnrollments(status, { dealerId, q, sort, order })}
+          exportName={`enrollments-${status.toLowerCase()}-selected`}
+          onOpenCustomer={onOpenCustomer}
+          onDone={refresh}
+        />
+        {loading ? <div className="space-y-2">{Array.from({ length: 4 }).map((_, i) => <div key={i} className="h-10 animate-pulse rounded bg-white/10" />)}</div> : null}
+        {error ? <div className="text-red-300">{error}</div> : null}
+        {!loading && !error ? (
+          <div className="divide-y divide-white/10">
+            {data.map((e) => (
+              <div key={e.id} className="grid grid-cols-12 items-center gap-3 py-3 text-sm">
+                <div className={cx(dealerId ? "col-span-5" : "col-span-3", "flex items-center gap-3")}>
+                  <input type="checkbox" aria-label={`Select enrollment ${e.id}`} className="h-4 w-4 accent-blue-500" checked={selection.isSelected(e.id)} onChange={() => selection.toggle(e)} />
+                  <button onClick={() => onOpenCustomer(e.id)} className="text-left">
+                    <div className="font-medium">Borrower {e.borrowerId}</div>
+                    <div className="text-xs text-white/50">Enrollment {e.id}</div>
+                  </button>
+                </div>
+                {dealerId ? null : <div className="col-span-2 truncate text-white/70">{dealerName(dealers, e.dealerId)}</div>}
+                <div className="col-span-3"><StatusPill status={e.status} currentDay={e.currentDay} /></div>
+                <div className="col-span-2 text-right">
+                  <div>{formatCurrency(remainingBalance(e))}</div>
+                  {e.amountPaid ? <div className="text-xs text-white/50">of {formatCurrency(e.amountDue)}</div> : null}
+                </div>
+                <div className="col-span-2 text-right text-white/70">{formatDate(e.nextScheduledAt)}</div>
+              </div>
+            ))}
+            {!data.length ? <div className="py-6 text-white/55">No matching enrollments.</div> : null}
+            <LoadMore hasMore={hasMore} loading={loadingMore} onLoadMore={loadMore} />
+          </div>
+        ) : null}
+      </Card>
+    </div>
+  );
+}
+
+function ResolveEscalationModal({
+  item,
+  onClose,
+  onDone,
+}: {
+  item: EscalationQueueItem | null;
+  onClose: () => void;
+  onDone: () => void;
+}) {
+  const [resolution, setResolution] = useState<EscalationResolution>("returned_to_active");
+  const [reason, setReason] = useState("");
+  const [amount, setAmount] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!item) return null;
+
+  const balance = remainingBalance(item.enrollment);
+  const nothingToCollect = balance === 0;
+  const paidAmount = balance == null && amount.trim() ? Number(amount) : undefined;
+  const amountError = resolution === "paid" && (balance != null || amount.trim()) ? paidResolutionError(item.enrollment, paidAmount) : null;
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (amountError) return;
+    setSaving(true);
+    try {
+      await sequenceApi.resolveEscalation(item.enrollment.id, { resolution, reason: reason.trim(), ...(resolution === "paid" ? { amount: paidAmount } : {}) });
+      setError(null);
+      setReason("");
+      onDone();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to resolve escalation");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/60 p-4">
+      <Card className={cx("w-full max-w-xl rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+        <CardHeader>
+          <CardTitle>Resolve escalation</CardTitle>
+          <div className="text-sm text-white/55">Borrower {item.enrollment.borrowerId} · {item.reason}</div>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-3" onSubmit={onSubmit}>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(RESOLUTION_LABELS) as EscalationResolution[]).map((key) => (
+                <Button
+                  key={key}
+                  type="button"
+                  variant="outline"
+                  disabled={key === "paid" && nothingToCollect}
+                  title={key === "paid" && nothingToCollect ? NOTHING_TO_COLLECT : undefined}
+                  onClick={() => setResolution(key)}
+                  className={cx("border-white/10 bg-white/5", key === resolution && "ring-1 ring-blue-500")}
+                >
+                  {RESOLUTION_LABELS[key]}
+                </Button>
+              ))}
+            </div>
+            {nothingToCollect ? <div className="text-sm text-white/60">{NOTHING_TO_COLLECT}. Return it to the sequence or suppress it.</div> : null}
+            {resolution === "paid" ? (
+              balance == null ? (
+                <div>
+                  <Input required type="number" min="0.01" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} placeholder="Amount paid (no amount due on file)" className="border-white/10 bg-white/5" />
+                  <FieldError message={amountError ?? undefined} />
+                </div>
+              ) : (
+                <div className="text-sm text-white/60">Posts a payment of {formatCurrency(balance)}, the remaining balance. For less, record a partial payment instead.</div>
+              )
+            ) : null}
+            <Input required value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Why is this escalation resolved?" className="border-white/10 bg-white/5" />
+            {error ? <div className="text-sm text-red-300">{error}</div> : null}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" className="border-white/10 bg-white/5" onClick={onClose}>Cancel</Button>
+              <Button type="submit" disabled={saving} style={{ backgroundColor: TOKENS.carpayBlue }}>{saving ? "Saving..." : "Resolve"}</Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function AssigneeCell({ item, agentName, onAssigned }: { item: EscalationQueueItem; agentName: string; onAssigned: () => void }) {
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const assignedTo = item.enrollment.assignedTo ?? null;
+
+  const assign = async (next: string | null) => {
+    setSaving(true);
+    try {
+      await sequenceApi.assignEnrollment(item.enrollment.id, { assignedTo: next });
+      setError(null);
+      setEditing(false);
+      onAssigned();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to assign");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (editing) {
+    return (
+      <form
+        className="flex gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void assign(value.trim() || null);
+        }}
+      >
+        <Input autoFocus value={value} onChange={(e) => setValue(e.target.value)} placeholder="Agent" className="h-8 border-white/10 bg-white/5" />
+        <Button type="submit" disabled={saving} variant="outline" className="h-8 border-white/10 bg-white/5 px-2">Save</Button>
+      </form>
+    );
+  }
+
+  return (
+    <div>
+      <button
+        type="button"
+        className={cx("text-left", assignedTo ? "text-white" : "text-white/45")}
+        onClick={() => {
+          setValue(assignedTo ?? "");
+          setEditing(true);
+        }}
+      >
+        {assignedTo ?? "Unassigned"}
+      </button>
+      {agentName && assignedTo !== agentName ? (
+        <button type="button" disabled={saving} className="ml-2 text-xs text-blue-300 hover:underline" onClick={() => void assign(agentName)}>Take</button>
+      ) : null}
+      {error ? <div className="text-xs text-red-300">{error}</div> : null}
+    </div>
+  );
+}
+
+type EscalationFilter = "all" | "unassigned" | "mine";
+
+const ESCALATION_FILTERS: EscalationFilter[] = ["all", "unassigned", "mine"];
+
+function EscalationsPage({ onOpenCustomer }: { onOpenCustomer: (id: string) => void }) {
+  const { data, loading, error, refresh } = useEscalations();
+  // Assignments are by display name, so "mine" and "Take" use the signed-in user's.
+  const agentName = useSession()?.user.name ?? "";
+  const canWork = useCan("work-escalations");
+  const [params, setParams] = useSearchParams();
+  const filter = ESCALATION_FILTERS.find((f) => f === params.get("filter")) ?? "all";
+  const setFilter = (next: EscalationFilter) => setParams({ filter: next === "all" ? null : next });
+  const [resolving, setResolving] = useState<EscalationQueueItem | null>(null);
+
+  const queue = useMemo(() => {
+    return [...data]
+      .filter((item) => {
+        if (filter === "unassigned") return !item.enrollment.assignedTo;
+        if (filter === "mine") return !!agentName && item.enrollment.assignedTo === agentName;
+        return true;
+      })
+      .sort((a, b) => +new Date(a.escalatedAt) - +new Date(b.escalatedAt));
+  }, [data, filter, agentName]);
+
+  return (
+    <div className="space-y-4">
+      <ResolveEscalationModal key={resolving?.enrollment.id ?? "none"} item={resolving} onClose={() => setResolving(null)} onDone={refresh} />
+      <Card className={cx("rounded-2xl border p-4", TOKENS.border, TOKENS.panel)}>
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="text-lg font-semibold">Escalations</div>
+            <div className="text-sm text-white/55">{data.length} waiting · oldest first</div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={refresh} className="border-white/10 bg-white/5">Refresh</Button>
+          </div>
+        </div>
+
+        <div className="mb-3 flex flex-wrap gap-2">
+          {ESCALATION_FILTERS.map((item) => (
+            <Button key={item} onClick={() => setFilter(item)} variant="outline" className={cx("border-white/10 bg-white/5 capitalize", item === filter && "ring-1 ring-blue-500")}>{item}</Button>
+          ))}
+        </div>
+
+        {loading ? <div className="space-y-2">{Array.from({ length: 4 }).map((_, i) => <div key={i} className="h-10 animate-pulse rounded bg-white/10" />)}</div> : null}
+        {error ? <div className="text-red-300">{error}</div> : null}
+
+        {!loading && !error ? (
+          <div className="divide-y divide-white/10">
+            {queue.map((item) => {
+              const ageHours = (+serverNow() - +new Date(item.escalatedAt)) / 3_600_000;
+              return (
+                <div key={item.enrollment.id} className="grid grid-cols-12 items-center gap-3 py-3 text-sm">
+                  <button onClick={() => onOpenCustomer(item.enrollment.id)} className="col-span-3 text-left">
+                    <div className="font-medium">Borrower {item.enrollment.borrowerId}</div>
+                    <div className="text-xs text-white/50">
+                      Dealer {item.enrollment.dealerId} ·{" "}
+                      {item.enrollment.amountPaid ? `${formatCurrency(remainingBalance(item.enrollment))} left of ${formatCurrency(item.enrollment.amountDue)}` : formatCurrency(item.enrollment.amountDue)}
+                    </div>
+                  </button>
+                  <div className="col-span-1" title={formatDate(item.escalatedAt)}>
+                    <span className={cx("rounded-full px-2 py-0.5 text-xs", ageHours >= 24 ? "bg-red-500/15 text-red-300" : "bg-white/10 text-white/70")}>{formatAge(item.escalatedAt)}</span>
+                  </div>
+                  <div className="col-span-4 min-w-0">
+                    <div className="truncate">{item.reason || "—"}</div>
+                    <div className="truncate text-xs text-white/50">
+                      {item.lastCall
+                        ? `Last call: ${CALL_OUTCOME_LABELS[item.lastCall.callOutcome]}${item.lastCall.transferReason ? ` · ${TRANSFER_REASON_LABELS[item.lastCall.transferReason]}` : ""}`
+                        : "No calls yet"}
+                    </div>
+                  </div>
+                  <div className="col-span-2">
+                    {canWork ? <AssigneeCell item={item} agentName={agentName} onAssigned={refresh} /> : <span className="text-xs text-white/60">{item.enrollment.assignedTo ?? "Unassigned"}</span>}
+                  </div>
+                  <div className="col-span-2 text-right">
+                    {canWork ? <Button variant="outline" className="border-white/10 bg-white/5" onClick={() => setResolving(item)}>Resolve</Button> : null}
+                  </div>
+                </div>
+              );
+            })}
+            {!queue.length ? <div className="py-6 text-white/55">No escalations in this view.</div> : null}
+          </div>
+        ) : null}
+      </Card>
+    </div>
+  );
+}
+
+type PromiseFilter = "all" | PromiseStatus;
+
+const PROMISE_FILTERS: PromiseFilter[] = ["all", "broken", "pending", "kept"];
+
+const PROMISE_STYLES: Record<PromiseStatus, string> = {
+  pending: "bg-white/10 text-white/70",
+  kept: "bg-emerald-500/15 text-emerald-300",
+  broken: "bg-red-500/15 text-red-300",
+};
+
+const BROKEN_PROMISE_REASON = "broken_promise_to_pay";
+
+function PromiseRow({ promise, onOpenCustomer, onEscalated }: { promise: PaymentPromise; onOpenCustomer: (id: string) => void; onEscalated: () => void }) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { enrollment, call, payment, status } = promise;
+  const canEscalate = useCan("escalate");
+
+  const escalate = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await sequenceApi.escalateEnrollment(enrollment.id, { reason: BROKEN_PROMISE_REASON });
+      onEscalated();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to escalate");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-12 items-center gap-3 py-3 text-sm">
+      <button onClick={() => onOpenCustomer(enrollment.id)} className="col-span-3 text-left">
+        <div className="font-medium">Borrower {enrollment.borrowerId}</div>
+        <div className="text-xs text-white/50">Dealer {enrollment.dealerId} · {formatCurrency(enrollment.amountDue)}</div>
+      </button>
+      <div className="col-span-1"><span className={cx("rounded-full px-2 py-0.5 text-xs capitalize", PROMISE_STYLES[status])}>{status}</span></div>
+      <div className="col-span-3 text-xs text-white/60">Promised on Day {call.day} · {formatDate(call.endedAt)}</div>
+      <div className="col-span-3 text-xs text-white/60">
+        {payment ? `${formatCurrency(payment.amount)} posted ${formatDate(payment.postedAt)}${status === "broken" ? " · late" : ""}` : status === "pending" ? `Due by ${formatDate(promise.deadline)}` : "No payment"}
+      </div>
+      <div className="col-span-2 text-right">
+        {canEscalate && canEscalatePromise(promise) ? (
+          <Button disabled={saving} style={{ backgroundColor: TOKENS.red }} onClick={() => void escalate()}>Escalate</Button>
+        ) : status === "broken" ? (
+          <span className="text-xs text-white/50">{enrollment.status}</span>
+        ) : null}
+        {error ? <div className="mt-1 text-xs text-red-300">{error}</div> : null}
+      </div>
+    </div>
+  );
+}
+
+function PromisesPage({ onOpenCustomer }: { onOpenCustomer: (id: string) => void }) {
+  const { data, loading, error, refresh } = useTimelines();
+  const [params, setParams] = useSearchParams();
+  const filter = PROMISE_FILTERS.find((f) => f === params.get("status")) ?? "all";
+  const setFilter = (next: PromiseFilter) => setParams({ status: next === "all" ? null : next });
+
+  const promises = useMemo(() => buildPromises(data, serverNow()), [data]);
+  const summary = useMemo(() => summarizePromises(promises), [promises]);
+  const byDate = useMemo(() => {
+    const map = new Map<string, PaymentPromise[]>();
+    promises
+      .filter((promise) => filter === "all" || promise.status === filter)
+      .forEach((promise) => map.set(promise.promisedFor, [...(map.get(promise.promisedFor) ?? []), promise]));
+    return Array.from(map.entries());
+  }, [promises, filter]);
+
+  const cards = [
+    { label: "Pending", value: String(summary.pending) },
+    { label: "Kept", value: String(summary.kept) },
+    { label: "Broken", value: String(summary.broken) },
+    { label: "Kept rate", value: summary.kept + summary.broken ? formatPercent(summary.keptRate) : "—" },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        {cards.map((card) => (
+          <Card key={card.label} className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+            <CardHeader className="pb-1"><CardTitle className="text-sm text-white/70">{card.label}</CardTitle></CardHeader>
+            <CardContent><div className="text-2xl">{card.value}</div></CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className={cx("rounded-2xl border p-4", TOKENS.border, TOKENS.panel)}>
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="text-lg font-semibold">Promises to pay</div>
+            <div className="text-sm text-white/55">Intent dates collected on calls, matched against posted payments</div>
+          </div>
+          <Button variant="outline" onClick={refresh} className="border-white/10 bg-white/5">Refresh</Button>
+        </div>
+
+        <div className="mb-3 flex flex-wrap gap-2">
+          {PROMISE_FILTERS.map((item) => (
+            <Button key={item} onClick={() => setFilter(item)} variant="outline" className={cx("border-white/10 bg-white/5 capitalize", item === filter && "ring-1 ring-blue-500")}>
+              {item}
+              {item === "broken" && summary.broken ? <span className="ml-1 rounded-full bg-red-500/20 px-1.5 text-xs text-red-300">{summary.broken}</span> : null}
+            </Button>
+          ))}
+        </div>
+
+        {loading ? <div className="space-y-2">{Array.from({ length: 4 }).map((_, i) => <div key={i} className="h-10 animate-pulse rounded bg-white/10" />)}</div> : null}
+        {error ? <div className="text-red-300">{error}</div> : null}
+
+        {!loading && !error ? (
+          <div className="space-y-4">
+            {byDate.map(([date, items]) => (
+              <div key={date}>
+                <div className="border-b border-white/10 pb-1 text-xs font-medium uppercase tracking-wide text-white/50">
+                  {new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" })}
+                </div>
+                <div className="divide-y divide-white/10">
+                  {items.map((promise) => (
+                    <PromiseRow key={`${promise.enrollment.id}-${promise.call.endedAt}`} promise={promise} onOpenCustomer={onOpenCustomer} onEscalated={refresh} />
+                  ))}
+                </div>
+              </div>
+            ))}
+            {!byDate.length ? <div className="py-6 text-white/55">No promises in this view.</div> : null}
+          </div>
+        ) : null}
+      </Card>
+    </div>
+  );
+}
+
+function BarList({ rows, empty }: { rows: Array<{ label: string; value: number; hint?: string }>; empty: string }) {
+  const max = Math.max(1, ...rows.map((row) => row.value));
+  if (!rows.length) return <div className="text-sm text-white/55">{empty}</div>;
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row) => (
+        <div key={row.label} className="text-sm">
+          <div className="mb-1 flex justify-between gap-3">
+            <span className="truncate text-white/80">{row.label}</span>
+            <span className="text-white/60">{row.hint ?? row.value}</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-white/10">
+            <div className="h-1.5 rounded-full" style={{ width: `${(row.value / max) * 100}%`, background: TOKENS.aiIndigo }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ReportsPage({ onOpenCustomer }: { onOpenCustomer: (id: string) => void }) {
+  const { data, loading, error, refresh } = useTimelines();
+  const { data: doNotContact } = useDoNotContact();
+  const [params] = useSearchParams();
+  const [defaultRange] = useState(() => {
+    const today = serverNow();
+    const weekAgo = new Date(today);
+    weekAgo.setDate(today.getDate() - 6);
+    return { from: toDateInput(weekAgo), to: toDateInput(today) };
+  });
+  // An explicitly cleared date is kept in the URL as an empty value so it doesn't snap back to the default.
+  const filters = useMemo<ReportFilters>(
+    () => ({
+      from: params.has("from") ? params.get("from") || null : defaultRange.from,
+      to: params.has("to") ? params.get("to") || null : defaultRange.to,
+      dealerId: params.get("dealer"),
+    }),
+    [params, defaultRange],
+  );
+  const setFilters = (update: (current: ReportFilters) => ReportFilters) => {
+    const next = update(filters);
+    const query = new URLSearchParams();
+    query.set("from", next.from ?? "");
+    query.set("to", next.to ?? "");
+    if (next.dealerId) query.set("dealer", next.dealerId);
+    navigate(`${window.location.pathname}?${query.toString()}`, { replace: true });
+  };
+
+  const dealers = useMemo(() => Array.from(new Set(data.map((t) => t.enrollment.dealerId))).sort(), [data]);
+  const report = useMemo(() => buildTimelineReport(data, filters), [data, filters]);
+  const compliance = useMemo(() => buildComplianceReport(data, doNotContact, filters), [data, doNotContact, filters]);
+
+  const sections = [
+    {
+      title: "Call outcomes",
+      rows: report.callOutcomes.map((row) => ({ label: CALL_OUTCOME_LABELS[row.key], value: row.count, hint: `${row.count} · ${formatPercent(row.count / Math.max(1, report.calls))}` })),
+      empty: "No calls in this range.",
+    },
+    {
+      title: "Transfer reasons",
+      rows: report.transferReasons.map((row) => ({ label: TRANSFER_REASON_LABELS[row.key], value: row.count })),
+      empty: "No transfers in this range.",
+    },
+    {
+      title: "Touches by channel",
+      rows: report.touchesByChannel.map((row) => ({ label: row.key.toUpperCase(), value: row.count })),
+      empty: "No touches in this range.",
+    },
+    {
+      title: "Escalation rate by dealer",
+      rows: report.escalationsByDealer.map((row) => ({ label: row.dealerId, value: row.rate, hint: `${row.escalated}/${row.enrollments} · ${formatPercent(row.rate)}` })),
+      empty: "No dealer activity in this range.",
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <Card className={cx("rounded-2xl border p-4", TOKENS.border, TOKENS.panel)}>
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <div className="text-lg font-semibold">Reports</div>
+            <div className="text-sm text-white/55">{report.enrollments} enrollments with activity in range</div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input type="date" value={filters.from ?? ""} onChange={(e) => setFilters((f) => ({ ...f, from: e.target.value || null }))} className="h-9 w-40 border-white/10 bg-white/5" />
+            <span className="text-white/50">to</span>
+            <Input type="date" value={filters.to ?? ""} onChange={(e) => setFilters((f) => ({ ...f, to: e.target.value || null }))} className="h-9 w-40 border-white/10 bg-white/5" />
+            <select value={filters.dealerId ?? ""} onChange={(e) => setFilters((f) => ({ ...f, dealerId: e.target.value || null }))} className="h-9 rounded-lg border border-white/10 bg-[#120D20] px-2 text-sm">
+              <option value="">All dealers</option>
+              {dealers.map((dealerId) => <option key={dealerId} value={dealerId}>{dealerId}</option>)}
+            </select>
+            <Button variant="outline" onClick={refresh} className="border-white/10 bg-white/5">Refresh</Button>
+          </div>
+        </div>
+      </Card>
+
+      {loading ? <div className="space-y-2">{Array.from({ length: 4 }).map((_, i) => <div key={i} className="h-10 animate-pulse rounded bg-white/10" />)}</div> : null}
+      {error ? <div className="text-red-300">{error}</div> : null}
+
+      {!loading && !error ? (
+        <>
+          <div className="grid gap-4 md:grid-cols-2">
+            {sections.map((section) => (
+              <Card key={section.title} className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+                <CardHeader className="pb-2"><CardTitle className="text-base">{section.title}</CardTitle></CardHeader>
+                <CardContent><BarList rows={section.rows} empty={section.empty} /></CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Paid-exit conversion by sequence day</CardTitle>
+              <div className="text-xs text-white/50">Payments are attributed to the last sequence day touched before they posted.</div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-4 gap-2 border-b border-white/10 pb-2 text-xs text-white/50">
+                <div>Day</div><div className="text-right">Reached</div><div className="text-right">Paid</div><div className="text-right">Conversion</div>
+              </div>
+              <div className="divide-y divide-white/10">
+                {report.paidExitsByDay.map((row) => (
+                  <div key={row.day} className="grid grid-cols-4 gap-2 py-2 text-sm">
+                    <div>Day {row.day}</div>
+                    <div className="text-right text-white/70">{row.reached}</div>
+                    <div className="text-right text-white/70">{row.paid}</div>
+                    <div className="text-right">{formatPercent(row.rate)}</div>
+                  </div>
+                ))}
+                {!report.paidExitsByDay.length ? <div className="py-4 text-sm text-white/55">No sequence activity in this range.</div> : null}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center justify-between text-base">
+                Contact compliance
+                <ExportButtons
+                  disabled={!compliance.violations.length}
+                  onExport={(format) => exportRows(format, `compliance-${filters.from ?? "start"}-${filters.to ?? "now"}`, compliance.violations.map(complianceExportRow), COMPLIANCE_EXPORT_COLUMNS)}
+                />
+              </CardTitle>
+              <div className="text-xs text-white/50">
+                {compliance.violations.length} violations across {compliance.enrollmentsAffected} enrollments. Sent touches are limited to the date range; upcoming scheduled touches are always checked.
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <BarList rows={compliance.byRule.map((row) => ({ label: COMPLIANCE_RULE_LABELS[row.key], value: row.count }))} empty="No compliance issues in this range." />
+              {compliance.violations.length ? (
+                <div className="divide-y divide-white/10">
+                  {compliance.violations.map((violation, index) => (
+                    <div key={`${violation.enrollment.id}-${violation.rule}-${violation.at}-${index}`} className="grid grid-cols-12 gap-2 py-2 text-sm">
+                      <button type="button" onClick={() => onOpenCustomer(violation.enrollment.id)} className="col-span-2 text-left font-medium hover:underline">{violation.enrollment.id}</button>
+                      <div className="col-span-3 text-red-200">{COMPLIANCE_RULE_LABELS[violation.rule]}</div>
+                      <div className="col-span-5 text-xs text-white/60">{violation.message}</div>
+                      <div className="col-span-2 text-right text-xs text-white/55">{violation.source === "scheduled" ? "Next touch · " : ""}{formatDate(violation.at)}</div>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+            </CardContent>
+          </Card>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+const NEW_CADENCE = "__new__";
+
+function emptyCadenceDraft(): SaveCadencePayload {
+  return { name: "", escalationDay: 10, steps: [{ day: 0, channel: "sms", templateId: "" }] };
+}
+
+function CadenceEditor({ cadence, onSaved }: { cadence: Cadence | null; onSaved: (cadence: Cadence) => void }) {
+  const [draft, setDraft] = useState<SaveCadencePayload>(() =>
+    cadence ? { name: cadence.name, escalationDay: cadence.escalationDay, steps: cadence.steps } : emptyCadenceDraft(),
+  );
+  const [dealerIds, setDealerIds] = useState(() => cadence?.dealerIds.join(", ") ?? "");
+  const [viewingVersion, setViewingVersion] = useState<number | null>(cadence?.version ?? null);
+  const canManage = useCan("manage-cadences");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const versionsQuery = useQuery(cadence ? queryKeys.cadenceVersions(cadence.id) : null, (signal) => sequenceApi.listCadenceVersions(cadence!.id, { signal }));
+  const versions = versionsQuery.data ?? NO_CADENCES;
+
+  const viewVersion = async (version: number) => {
+    if (!cadence) return;
+    try {
+      const result = await sequenceApi.getCadence(cadence.id, version);
+      setDraft({ name: result.name, escalationDay: result.escalationDay, steps: result.steps });
+      setViewingVersion(version);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load version");
+    }
+  };
+
+  const setStep = (day: number, patch: Partial<CadenceStep> | null) => {
+    setDraft((d) => {
+      const others = d.steps.filter((step) => step.day !== day);
+      if (!patch) return { ...d, steps: others };
+      const current = d.steps.find((step) => step.day === day) ?? { day, channel: "sms" as TouchChannel, templateId: "" };
+      return { ...d, steps: [...others, { ...current, ...patch }].sort((a, b) => a.day - b.day) };
+    });
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const payload = { ...draft, steps: draft.steps.filter((step) => step.day < draft.escalationDay) };
+      const saved = cadence ? await sequenceApi.publishCadenceVersion(cadence.id, payload) : await sequenceApi.createCadence(payload);
+      setError(null);
+      onSaved(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save cadence");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveDealers = async () => {
+    if (!cadence) return;
+    setSaving(true);
+    try {
+      const saved = await sequenceApi.assignCadence(cadence.id, { dealerIds: dealerIds.split(",").map((d) => d.trim()).filter(Boolean) });
+      setError(null);
+      onSaved(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to assign dealers");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const days = Array.from({ length: draft.escalationDay }, (_, day) => day);
+
+  return (
+    <Card className={cx("rounded-2xl border p-4", TOKENS.border, TOKENS.panel)}>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="text-lg font-semibold">{cadence ? `${cadence.name}` : "New cadence"}</div>
+        {cadence ? (
+          <select value={viewingVersion ?? ""} onChange={(e) => void viewVersion(Number(e.target.value))} className="h-9 rounded-lg border border-white/10 bg-[#120D20] px-2 text-sm">
+            {(versions.length ? versions : [cadence]).map((v) => (
+              <option key={v.version} value={v.version}>v{v.version} · {formatDate(v.createdAt)}</option>
+            ))}
+          </select>
+        ) : null}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-3">
+        <Input value={draft.name} onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))} placeholder="Cadence name" className="border-white/10 bg-white/5 md:col-span-2" />
+        <label className="flex items-center gap-2 text-sm text-white/70">
+          Escalate on day
+          <Input type="number" min={1} max={30} value={draft.escalationDay} onChange={(e) => setDraft((d) => ({ ...d, escalationDay: Math.max(1, Math.min(30, Number(e.target.value) || 1)) }))} className="h-9 w-20 border-white/10 bg-white/5" />
+        </label>
+      </div>
+
+      <div className="mt-4 divide-y divide-white/10">
+        {days.map((day) => {
+          const step = draft.steps.find((s) => s.day === day);
+          return (
+            <div key={day} className="grid grid-cols-12 items-center gap-2 py-2 text-sm">
+              <div className="col-span-2 text-white/70">Day {day}</div>
+              <select value={step?.channel ?? ""} onChange={(e) => setStep(day, e.target.value ? { channel: e.target.value as TouchChannel } : null)} className="col-span-3 h-9 rounded-lg border border-white/10 bg-[#120D20] px-2 text-sm">
+                <option value="">No touch</option>
+                {CHANNELS.map((channel) => <option key={channel} value={channel}>{channel.toUpperCase()}</option>)}
+              </select>
+              <Input disabled={!step} value={step?.templateId ?? ""} onChange={(e) => setStep(day, { templateId: e.target.value })} placeholder="Template ID" className="col-span-7 h-9 border-white/10 bg-white/5" />
+            </div>
+          );
+        })}
+        <div className="flex items-center gap-2 py-2 text-sm text-white/70"><AlertTriangle size={14} /> Day {draft.escalationDay}: auto-escalate if unpaid</div>
+      </div>
+
+      {error ? <div className="mt-3 text-sm text-red-300">{error}</div> : null}
+      <div className="mt-3 flex justify-end">
+        {canManage ? (
+          <Button disabled={saving} onClick={() => void save()} style={{ backgroundColor: TOKENS.carpayBlue }}>
+            {saving ? "Saving..." : cadence ? `Publish v${Math.max(cadence.version, ...versions.map((v) => v.version)) + 1}` : "Create cadence"}
+          </Button>
+        ) : (
+          <div className="text-xs text-white/50">Only supervisors can publish cadence changes.</div>
+        )}
+      </div>
+
+      {cadence ? (
+        <div className="mt-4 rounded-xl border border-white/10 bg-white/5 p-3">
+          <div className="mb-2 text-sm font-medium">Assigned dealers</div>
+          <div className="text-xs text-white/55">New enrollments for these dealers use the latest version of this cadence.{cadence.isDefault ? " Dealers without an assignment also use it." : ""}</div>
+          <div className="mt-2 flex gap-2">
+            <Input value={dealerIds} onChange={(e) => setDealerIds(e.target.value)} placeholder="Dealer IDs, comma separated" className="border-white/10 bg-[#120D20]" />
+            {canManage ? <Button disabled={saving} variant="outline" className="border-white/10 bg-white/5" onClick={() => void saveDealers()}>Save dealers</Button> : null}
+          </div>
+        </div>
+      ) : null}
+    </Card>
+  );
+}
+
+function DoNotContactCard() {
+  const { data, loading, error } = useDoNotContact();
+  const canAdd = useCan("add-do-not-contact");
+  const canRemove = useCan("remove-do-not-contact");
+  const [form, setForm] = useState({ borrowerId: "", phone: "", email: "", reason: "" });
+  const [saving, setSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const hasIdentifier = !!(form.borrowerId.trim() || form.phone.trim() || form.email.trim());
+
+  const onAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setActionError(null);
+    try {
+      await sequenceApi.addDoNotContact({
+        borrowerId: form.borrowerId.trim() || undefined,
+        phone: form.phone.trim() || undefined,
+        email: form.email.trim() || undefined,
+        reason: form.reason.trim(),
+      });
+      setForm({ borrowerId: "", phone: "", email: "", reason: "" });
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Unable to add entry");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onRemove = async (entry: DoNotContactEntry) => {
+    setActionError(null);
+    try {
+      await sequenceApi.removeDoNotContact(entry.id);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Unable to remove entry");
+    }
+  };
+
+  return (
+    <Card className={cx("rounded-2xl border p-4", TOKENS.border, TOKENS.panel)}>
+      <div className="mb-1 flex items-center gap-2 text-lg font-semibold"><ShieldAlert size={18} /> Do-not-contact list</div>
+      <div className="mb-3 text-sm text-white/55">Borrowers matched by ID, phone or email can't be enrolled, and any touch sent to them is flagged.</div>
+      {canAdd ? (
+        <form className="mb-3 grid gap-2 md:grid-cols-5" onSubmit={onAdd}>
+          <Input value={form.borrowerId} onChange={(e) => setForm((v) => ({ ...v, borrowerId: e.target.value }))} placeholder="Borrower ID" className="border-white/10 bg-white/5" />
+          <Input value={form.phone} onChange={(e) => setForm((v) => ({ ...v, phone: e.target.value }))} placeholder="Phone" className="border-white/10 bg-white/5" />
+          <Input value={form.email} onChange={(e) => setForm((v) => ({ ...v, email: e.target.value }))} placeholder="Email" className="border-white/10 bg-white/5" />
+          <Input value={form.reason} onChange={(e) => setForm((v) => ({ ...v, reason: e.target.value }))} placeholder="Reason (required)" className="border-white/10 bg-white/5" />
+          <Button type="submit" disabled={saving || !hasIdentifier || !form.reason.trim()} style={{ backgroundColor: TOKENS.carpayBlue }}>{saving ? "Adding..." : "Add"}</Button>
+        </form>
+      ) : null}
+      {actionError ? <div className="mb-2 text-sm text-red-300">{actionError}</div> : null}
+      {loading ? <div className="h-10 animate-pulse rounded bg-white/10" /> : null}
+      {error ? <div className="text-red-300">{error}</div> : null}
+      <div className="divide-y divide-white/10">
+        {data.map((entry) => (
+          <div key={entry.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+            <div>
+              <div>{[entry.borrowerId, entry.phone, entry.email].filter(Boolean).join(" · ")}</div>
+              <div className="text-xs text-white/55">{entry.reason} · added by {entry.addedBy} on {formatDate(entry.addedAt)}</div>
+            </div>
+            {canRemove ? <Button variant="outline" className="h-8 border-white/10 bg-white/5 text-xs" onClick={() => void onRemove(entry)}>Remove</Button> : null}
+          </div>
+        ))}
+        {!loading && !data.length ? <div className="py-2 text-sm text-white/55">Nobody is on the list.</div> : null}
+      </div>
+    </Card>
+  );
+}
+
+function SettingsPage() {
+  const { data, loading, error, refresh } = useCadences();
+  const [params, setParams] = useSearchParams();
+  const selectedId = params.get("cadence");
+  const setSelectedId = (id: string) => setParams({ cadence: id });
+  const activeId = selectedId ?? data[0]?.id ?? NEW_CADENCE;
+  const selected = data.find((cadence) => cadence.id === activeId) ?? null;
+
+  return (
+    <div className="grid gap-4 md:grid-cols-12">
+      <Card className={cx("rounded-2xl border p-4 md:col-span-4", TOKENS.border, TOKENS.panel)}>
+        <div className="mb-3 flex items-center justify-between">
+          <div className="text-lg font-semibold">Cadences</div>
+          <Button variant="outline" className="border-white/10 bg-white/5" onClick={() => setSelectedId(NEW_CADENCE)}>New</Button>
+        </div>
+        {loading ? <div className="space-y-2">{Array.from({ length: 3 }).map((_, i) => <div key={i} className="h-10 animate-pulse rounded bg-white/10" />)}</div> : null}
+        {error ? <div className="text-red-300">{error}</div> : null}
+        <div className="space-y-2">
+          {data.map((cadence) => (
+            <button key={cadence.id} type="button" onClick={() => setSelectedId(cadence.id)} className={cx("w-full rounded-xl border border-white/10 p-3 text-left text-sm", cadence.id === activeId ? "bg-white/10" : "bg-white/5 hover:bg-white/10")}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{cadence.name}</span>
+                <span className="text-xs text-white/50">v{cadence.version}</span>
+              </div>
+              <div className="text-xs text-white/50">
+                {cadence.steps.length} touches · escalates day {cadence.escalationDay}
+                {cadence.isDefault ? " · default" : ""}
+                {cadence.dealerIds.length ? ` · ${cadence.dealerIds.length} dealers` : ""}
+              </div>
+            </button>
+          ))}
+        </div>
+      </Card>
+
+      <div className="md:col-span-8">
+        {!loading ? (
+          <CadenceEditor
+            key={selected ? `${selected.id}:${selected.version}:${selected.dealerIds.join(",")}` : NEW_CADENCE}
+            cadence={selected}
+            onSaved={(cadence) => {
+              setSelectedId(cadence.id);
+              void refresh();
+            }}
+          />
+        ) : null}
+      </div>
+
+      <div className="md:col-span-12">
+        <DoNotContactCard />
+      </div>
+    </div>
+  );
+}
+
+function UnrecognizedEventCard({ item }: { item: QuarantinedEvent }) {
+  const type = item.raw && typeof item.raw === "object" && "type" in item.raw ? String((item.raw as { type?: unknown }).type) : "unknown";
+  return (
+    <div className="rounded-xl border border-amber-400/30 bg-amber-400/5 p-3 text-sm">
+      <div className="flex items-center gap-2 text-amber-200"><AlertTriangle size={16} /> Unrecognized event · {type}</div>
+      <ul className="mt-2 list-disc pl-5 text-xs text-white/60">
+        {item.issues.map((issue) => <li key={issue.path + issue.message}>{issue.path} {issue.message}</li>)}
+      </ul>
+      <details className="mt-2 text-xs text-white/50">
+        <summary className="cursor-pointer">Raw payload</summary>
+        <pre className="mt-1 overflow-x-auto whitespace-pre-wrap">{JSON.stringify(item.raw, null, 2)}</pre>
+      </details>
+    </div>
+  );
+}
+
+const IDENTITY_VERIFICATION_LABELS: Record<IdentityVerification, string> = {
+  verified: "Verified",
+  failed: "Failed",
+  not_attempted: "Not attempted",
+};
 
-        {loading ? <div className="space-y-2">{Array.from({ length: 4 }).map((_, i) => <div key={i} className="h-10 animate-pulse rounded bg-white/10" />)}</div> : null}
-        {error ? <div className="text-red-300">{error}</div> : null}
+const CALL_SPEAKER_LABELS: Record<CallSpeaker, string> = { agent: "AI agent", borrower: "Borrower" };
 
-        {!loading && !error ? (
-          <div className="divide-y divide-white/10">
-            {filtered.map((e) => (
-              <div key={e.id} className="grid grid-cols-12 items-center gap-3 py-3 text-sm">
-                <button onClick={() => onOpenCustomer(e.id)} className="col-span-5 text-left">
-                  <div className="font-medium">Borrower {e.borrowerId}</div>
-                  <div className="text-xs text-white/50">Enrollment {e.id}</div>
-                </button>
-                <div className="col-span-3"><StatusPill status={e.status} currentDay={e.currentDay} /></div>
-                <div className="col-span-2 text-right">{formatCurrency(e.amountDue)}</div>
-                <div className="col-span-2 text-right text-white/70">{formatDate(e.nextScheduledAt)}</div>
-              </div>
-            ))}
-            {!filtered.length ? <div className="py-6 text-white/55">No matching enrollments.</div> : null}
+function callSummary(event: CallCompletedEvent) {
+  return [
+    `Outcome: ${CALL_OUTCOME_LABELS[event.callOutcome]}`,
+    `Duration ${formatDuration(callDurationSec(event))}`,
+    event.identityVerification ? `ID check: ${IDENTITY_VERIFICATION_LABELS[event.identityVerification]}` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function CallDetailPanel({ event }: { event: CallCompletedEvent }) {
+  const [query, setQuery] = useState("");
+  const transcript = event.transcript ?? [];
+  const matches = new Set(searchTranscript(transcript, query));
+  const searching = query.trim().length > 0;
+  const facts: Array<[string, string]> = [
+    ["Started", formatDate(event.startedAt)],
+    ["Ended", formatDate(event.endedAt)],
+    ["Duration", formatDuration(callDurationSec(event))],
+    ["Outcome", CALL_OUTCOME_LABELS[event.callOutcome]],
+    ["Identity verification", event.identityVerification ? IDENTITY_VERIFICATION_LABELS[event.identityVerification] : "Not reported"],
+    ["Transfer reason", event.transferReason ? TRANSFER_REASON_LABELS[event.transferReason] : "—"],
+    ["Intent date", event.intentDate ?? "—"],
+  ];
+
+  return (
+    <div className="mt-3 space-y-3 border-t border-white/10 pt-3 text-xs">
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 md:grid-cols-4">
+        {facts.map(([label, value]) => (
+          <div key={label}>
+            <div className="text-white/45">{label}</div>
+            <div className={cx(label === "Identity verification" && event.identityVerification === "failed" ? "text-red-300" : "text-white/80")}>{value}</div>
           </div>
-        ) : null}
-      </Card>
+        ))}
+      </div>
+      {event.notes ? <div className="text-white/70">Notes: {event.notes}</div> : null}
+      <div>
+        <div className="mb-1 text-white/45">Recording</div>
+        {event.recording?.url ? (
+          <audio controls preload="none" src={event.recording.url} className="h-8 w-full" />
+        ) : event.recording ? (
+          <div className="font-mono text-white/70">{event.recording.id}</div>
+        ) : (
+          <div className="text-white/55">No recording for this call.</div>
+        )}
+      </div>
+      <div>
+        <div className="mb-2 flex items-center justify-between gap-3">
+          <div className="text-white/45">Transcript</div>
+          {transcript.length ? (
+            <div className="relative w-56">
+              <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-white/40" />
+              <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search transcript" className="h-7 border-white/10 bg-white/5 pl-6 text-xs" />
+            </div>
+          ) : null}
+        </div>
+        {transcript.length ? (
+          <>
+            {searching ? <div className="mb-2 text-white/55">{matches.size ? `${matches.size} of ${transcript.length} turns match` : "No turns match"}</div> : null}
+            <div className="max-h-72 space-y-1.5 overflow-y-auto pr-1">
+              {transcript.map((turn, index) => (
+                <div key={index} className={cx("flex gap-3 rounded-lg px-2 py-1", searching && !matches.has(index) ? "opacity-40" : "", turn.speaker === "agent" ? "bg-white/5" : "")}>
+                  <div className="w-10 shrink-0 font-mono text-white/40">{formatDuration(turn.offsetSec)}</div>
+                  <div className={cx("w-16 shrink-0", turn.speaker === "agent" ? "text-sky-200" : "text-white/70")}>{CALL_SPEAKER_LABELS[turn.speaker]}</div>
+                  <div className="text-white/85">
+                    {highlightSegments(turn.text, query).map((segment, i) =>
+                      segment.match ? <mark key={i} className="rounded bg-amber-300/30 text-amber-100">{segment.text}</mark> : <React.Fragment key={i}>{segment.text}</React.Fragment>,
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <div className="text-white/55">{event.callOutcome === "unanswered" ? "The call wasn't answered." : "No transcript for this call."}</div>
+        )}
+      </div>
     </div>
   );
 }
 
-function TimelineList({ events }: { events: TimelineEvent[] }) {
+function TimelineList({
+  events,
+  quarantined = [],
+  highlighted,
+  emptyMessage = "No timeline events yet.",
+}: {
+  events: TimelineEvent[];
+  quarantined?: QuarantinedEvent[];
+  highlighted?: ReadonlySet<string>;
+  emptyMessage?: string;
+}) {
   const grouped = useMemo(() => {
     const map = new Map<string, TimelineEvent[]>();
     const sorted = [...events].sort((a, b) => +new Date(eventTimestamp(b)) - +new Date(eventTimestamp(a)));
+    // Newest first, so the run number counts down past each restart.
+    const restarts = sorted.filter(isCadenceRestart).length;
+    let run = restarts + 1;
     sorted.forEach((event) => {
+      if (isCadenceRestart(event)) run -= 1;
       const day = eventDay(event);
-      const key = day == null ? "System Events" : `Day ${day}`;
+      const dayLabel = restarts ? `Run ${run} · Day ${day}` : `Day ${day}`;
+      const key = day != null ? dayLabel : event.type === "AGENT_NOTE" ? "Agent activity" : "System Events";
       const arr = map.get(key) ?? [];
       arr.push(event);
       map.set(key, arr);
     });
     return map;
   }, [events]);
+  // Keyed by start time rather than event object so a panel stays open across refetches.
+  const [openCalls, setOpenCalls] = useState<ReadonlySet<string>>(() => new Set());
+  const toggleCall = (startedAt: string) =>
+    setOpenCalls((current) => {
+      const next = new Set(current);
+      if (!next.delete(startedAt)) next.add(startedAt);
+      return next;
+    });
 
   return (
     <div className="space-y-3">
@@ -408,65 +2457,508 @@ function TimelineList({ events }: { events: TimelineEvent[] }) {
         <Card key={dayLabel} className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel)}>
           <CardHeader className="pb-2"><CardTitle className="text-base">{dayLabel}</CardTitle></CardHeader>
           <CardContent className="space-y-2">
-            {dayEvents.map((event, idx) => {
-              const Icon = event.type === "TOUCH_SENT" ? channelIcon(event.channel) : event.type === "PAYMENT_POSTED" ? CircleDollarSign : event.type === "SUPPRESSED" ? Ban : AlertTriangle;
+            {dayEvents.map((event) => {
+              const Icon =
+                event.type === "TOUCH_SENT"
+                  ? channelIcon(event.channel)
+                  : event.type === "CALL_COMPLETED"
+                    ? Phone
+                    : event.type === "PAYMENT_POSTED"
+                    ? CircleDollarSign
+                    : event.type === "SUPPRESSED"
+                      ? Ban
+                      : event.type === "ESCALATION_RESOLVED"
+                        ? CheckCircle2
+                        : event.type === "RESUMED" || event.type === "DE_ESCALATED"
+                          ? RotateCcw
+                          : event.type === "AGENT_NOTE"
+                            ? StickyNote
+                            : AlertTriangle;
+              const key = eventKey(event);
+              const isNew = highlighted?.has(key) ?? false;
               return (
-                <div key={`${dayLabel}-${idx}`} className="rounded-xl border border-white/10 bg-white/5 p-3 text-sm">
+                <div
+                  key={key}
+                  className={cx("rounded-xl border p-3 text-sm transition-colors duration-700", isNew ? "border-emerald-400/50 bg-emerald-400/10" : "border-white/10 bg-white/5")}
+                >
                   <div className="flex items-center justify-between gap-3">
-                    <div className="flex items-center gap-2"><Icon size={16} className="text-white/70" /> {eventTitle(event)}</div>
+                    <div className="flex items-center gap-2">
+                      <Icon size={16} className="text-white/70" /> {eventTitle(event)}
+                      {isNew ? <span className="rounded-full bg-emerald-400/20 px-2 py-0.5 text-[10px] uppercase tracking-wide text-emerald-200">New</span> : null}
+                    </div>
                     <div className="text-xs text-white/55">{formatDate(eventTimestamp(event))}</div>
                   </div>
+                  {event.actor ? (
+                    <div className="mt-1 text-[11px] text-white/45">
+                      By {actorLabel(event.actor)}
+                      {event.source ? ` · from ${sourceLabel(event.source)}` : ""}
+                    </div>
+                  ) : null}
                   {event.type === "CALL_COMPLETED" ? (
+                    <>
+                      <button
+                        type="button"
+                        aria-expanded={openCalls.has(event.startedAt)}
+                        onClick={() => toggleCall(event.startedAt)}
+                        className="mt-2 flex w-full items-center justify-between gap-3 text-left text-xs text-white/70 hover:text-white"
+                      >
+                        <span>{callSummary(event)}</span>
+                        <span className="flex shrink-0 items-center gap-1 text-white/55">
+                          {openCalls.has(event.startedAt) ? "Hide details" : "Call details"}
+                          {openCalls.has(event.startedAt) ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                        </span>
+                      </button>
+                      {openCalls.has(event.startedAt) ? <CallDetailPanel event={event} /> : null}
+                    </>
+                  ) : null}
+                  {event.type === "PAYMENT_POSTED" && (event.method || event.reference || event.remainingBalance != null) ? (
                     <div className="mt-2 text-xs text-white/70">
-                      Outcome: {CALL_OUTCOME_LABELS[event.callOutcome]}
-                      {event.transferReason ? ` · Transfer reason: ${TRANSFER_REASON_LABELS[event.transferReason]}` : ""}
-                      {event.intentDate ? ` · Intent date: ${event.intentDate}` : ""}
-                      {event.notes ? ` · Notes: ${event.notes}` : ""}
+                      {[
+                        event.method ? PAYMENT_METHOD_LABELS[event.method] : null,
+                        event.reference ? `Ref ${event.reference}` : null,
+                        event.remainingBalance != null ? `Balance after: ${formatCurrency(event.remainingBalance)}` : null,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
                     </div>
                   ) : null}
                   {event.type === "ESCALATED" ? <div className="mt-2 text-xs text-white/70">Reason: {event.reason}</div> : null}
-                  {event.type === "SUPPRESSED" ? <div className="mt-2 text-xs text-white/70">Reason: {event.reason}</div> : null}
+                  {event.type === "SUPPRESSED" || event.type === "RESUMED" || event.type === "DE_ESCALATED" ? <div className="mt-2 text-xs text-white/70">Reason: {event.reason}</div> : null}
+                  {event.type === "ESCALATION_RESOLVED" ? <div className="mt-2 text-xs text-white/70">By {event.resolvedBy} · Reason: {event.reason}</div> : null}
+                  {isCadenceRestart(event) ? <div className="mt-1 text-xs text-white/55">Cadence restarted from Day 0.</div> : null}
+                  {event.type === "AGENT_NOTE" ? (
+                    <>
+                      <div className="mt-2 whitespace-pre-wrap text-sm text-white/80">{event.body}</div>
+                      {event.followUpDate ? <div className="mt-1 flex items-center gap-1 text-xs text-white/60"><CalendarClock size={12} /> Follow up on {event.followUpDate}</div> : null}
+                    </>
+                  ) : null}
                 </div>
               );
             })}
           </CardContent>
         </Card>
       ))}
-      {!events.length ? <div className="rounded-2xl border border-white/10 bg-white/5 p-4 text-sm text-white/60">No timeline events yet.</div> : null}
+      {quarantined.length ? (
+        <Card className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+          <CardHeader className="pb-2"><CardTitle className="text-base">Unrecognized events</CardTitle></CardHeader>
+          <CardContent className="space-y-2">
+            {quarantined.map((item, idx) => <UnrecognizedEventCard key={idx} item={item} />)}
+          </CardContent>
+        </Card>
+      ) : null}
+      {!events.length && !quarantined.length ? <div className="rounded-2xl border border-white/10 bg-white/5 p-4 text-sm text-white/60">{emptyMessage}</div> : null}
+    </div>
+  );
+}
+
+const DEFAULT_ESCALATION_DAY = 10;
+
+const TIMELINE_GROUP_LABELS: Record<TimelineEventGroup, string> = {
+  touch: "Touches",
+  call: "Calls",
+  payment: "Payments",
+  status: "Status changes",
+  note: "Agent notes",
+};
+
+function FilterChip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      aria-pressed={active}
+      onClick={onClick}
+      className={cx("rounded-full border px-3 py-1 text-xs", active ? "border-blue-400/60 bg-blue-500/20 text-white" : "border-white/10 bg-white/5 text-white/65 hover:bg-white/10")}
+    >
+      {children}
+    </button>
+  );
+}
+
+function toggled<T>(items: T[], item: T) {
+  return items.includes(item) ? items.filter((value) => value !== item) : [...items, item];
+}
+
+function TimelineFilterBar({ filters, onChange, shown, total }: { filters: TimelineFilters; onChange: (next: TimelineFilters) => void; shown: number; total: number }) {
+  return (
+    <Card className={cx("rounded-2xl border p-3", TOKENS.border, TOKENS.panel)}>
+      <div className="flex flex-wrap items-center gap-2">
+        {TIMELINE_EVENT_GROUPS.map((group) => (
+          <FilterChip key={group} active={filters.groups.includes(group)} onClick={() => onChange({ ...filters, groups: toggled(filters.groups, group) })}>
+            {TIMELINE_GROUP_LABELS[group]}
+          </FilterChip>
+        ))}
+        <div className="mx-1 h-5 w-px bg-white/10" />
+        {TIMELINE_CHANNELS.map((channel) => {
+          const Icon = channelIcon(channel);
+          return (
+            <FilterChip key={channel} active={filters.channels.includes(channel)} onClick={() => onChange({ ...filters, channels: toggled(filters.channels, channel) })}>
+              <span className="flex items-center gap-1"><Icon size={12} /> {channel.toUpperCase()}</span>
+            </FilterChip>
+          );
+        })}
+        <div className="relative ml-auto w-full md:w-64">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-white/40" />
+          <Input value={filters.query} onChange={(e) => onChange({ ...filters, query: e.target.value })} placeholder="Search notes and reasons" className="h-8 border-white/10 bg-white/5 pl-8 text-sm" />
+        </div>
+      </div>
+      {hasTimelineFilters(filters) ? (
+        <div className="mt-2 flex items-center gap-3 text-xs text-white/55">
+          Showing {shown} of {total} events
+          <button type="button" className="text-white/70 underline-offset-2 hover:underline" onClick={() => onChange({ groups: [], channels: [], query: "" })}>Clear filters</button>
+        </div>
+      ) : null}
+    </Card>
+  );
+}
+
+const DAY_STATE_STYLES: Record<DayTrackerState, string> = {
+  done: "border-white/10 bg-white/5",
+  current: "border-blue-400/60 bg-blue-500/15",
+  missed: "border-red-400/40 bg-red-500/10",
+  upcoming: "border-dashed border-white/15 bg-transparent",
+  not_reached: "border-white/5 bg-transparent opacity-50",
+};
+
+function DayTracker({ cadence, enrollment, events }: { cadence: Cadence | null; enrollment: Enrollment; events: TimelineEvent[] }) {
+  const escalationDay = cadence?.escalationDay ?? DEFAULT_ESCALATION_DAY;
+  const cells = useMemo(() => buildDayTracker(cadence?.steps ?? [], escalationDay, enrollment, events), [cadence, escalationDay, enrollment, events]);
+
+  return (
+    <Card className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Sequence progress</CardTitle>
+        <div className="text-xs text-white/50">Planned touch on top; below it what was sent (amber when it differs from the plan), call outcomes and where the sequence ended.</div>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <div className="grid min-w-[720px] gap-1.5" style={{ gridTemplateColumns: `repeat(${cells.length}, minmax(0, 1fr))` }}>
+          {cells.map((cell) => {
+            const PlannedIcon = cell.planned ? channelIcon(cell.planned.channel) : null;
+            return (
+              <div key={cell.day} className={cx("flex min-h-28 flex-col gap-1.5 rounded-xl border p-2 text-[11px]", DAY_STATE_STYLES[cell.state])}>
+                <div className="flex items-center justify-between">
+                  <span className={cx("font-medium", cell.state === "current" ? "text-blue-200" : "text-white/80")}>Day {cell.day}</span>
+                  {cell.state === "missed" ? <span className="text-red-300">Missed</span> : cell.state === "current" ? <span className="text-blue-200">Today</span> : null}
+                </div>
+                <div className="flex items-center gap-1 text-white/45" title={cell.planned ? `Planned: ${cell.planned.channel.toUpperCase()} · ${cell.planned.templateId}` : undefined}>
+                  {cell.day === escalationDay ? <><AlertTriangle size={12} /> Auto-escalate</> : PlannedIcon ? <><PlannedIcon size={12} /> {cell.planned!.channel.toUpperCase()}</> : "—"}
+                </div>
+                {cell.sent.length ? (
+                  <div className="flex flex-wrap gap-1">
+                    {cell.sent.map((event, index) => {
+                      const Icon = channelIcon(event.channel);
+                      const offPlan = cell.planned != null && cell.planned.channel !== event.channel;
+                      return <Icon key={index} size={13} className={offPlan ? "text-amber-300" : "text-emerald-300"} aria-label={`Sent ${event.channel} at ${formatDate(event.sentAt)}`} />;
+                    })}
+                  </div>
+                ) : null}
+                {cell.calls.map((call, index) => (
+                  <div key={index} className="truncate text-white/70" title={CALL_OUTCOME_LABELS[call.callOutcome]}>{CALL_OUTCOME_LABELS[call.callOutcome]}</div>
+                ))}
+                <div className="mt-auto flex flex-wrap gap-1">
+                  {cell.payments ? <span className="flex items-center gap-0.5 text-emerald-300"><CircleDollarSign size={12} /> Paid</span> : null}
+                  {cell.escalated ? <span className="flex items-center gap-0.5 text-red-300"><AlertTriangle size={12} /> Escalated</span> : null}
+                  {cell.suppressed ? <span className="flex items-center gap-0.5 text-amber-300"><Ban size={12} /> Suppressed</span> : null}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CadencePlan({ cadence, enrollment, events }: { cadence: Cadence; enrollment: Enrollment; events: TimelineEvent[] }) {
+  const days = Array.from({ length: cadence.escalationDay + 1 }, (_, day) => day);
+  const run = currentRun(events);
+
+  return (
+    <Card className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+      <CardHeader className="pb-2"><CardTitle className="text-base">Planned vs. sent · {cadence.name} v{cadence.version}</CardTitle></CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-12 gap-2 border-b border-white/10 pb-2 text-xs text-white/50">
+          <div className="col-span-2">Day</div><div className="col-span-4">Planned</div><div className="col-span-6">Sent</div>
+        </div>
+        <div className="divide-y divide-white/10">
+          {days.map((day) => {
+            const planned = cadence.steps.find((step) => step.day === day);
+            const sent = run.filter((event) => event.type === "TOUCH_SENT" && event.day === day);
+            const PlannedIcon = planned ? channelIcon(planned.channel) : null;
+            let status: React.ReactNode;
+            if (sent.length) {
+              status = sent.map((event, idx) =>
+                event.type === "TOUCH_SENT" ? (
+                  <div key={idx} className={cx(planned && planned.channel !== event.channel ? "text-amber-300" : "text-white/80")}>
+                    {event.channel.toUpperCase()} · {formatDate(event.sentAt)}
+                    {planned && planned.channel !== event.channel ? " · off plan" : ""}
+                  </div>
+                ) : null,
+              );
+            } else if (day === cadence.escalationDay) {
+              status = enrollment.status === "ESCALATED" && enrollment.currentDay >= day ? "Escalated" : <span className="text-white/45">—</span>;
+            } else if (!planned) {
+              status = <span className="text-white/45">No touch planned</span>;
+            } else if (enrollment.status !== "ACTIVE" && day > enrollment.currentDay) {
+              status = <span className="text-white/45">Not sent · sequence exited</span>;
+            } else if (day < enrollment.currentDay) {
+              status = <span className="text-red-300">Missed</span>;
+            } else {
+              status = <span className="text-white/55">Scheduled</span>;
+            }
+
+            return (
+              <div key={day} className={cx("grid grid-cols-12 items-center gap-2 py-2 text-sm", day === enrollment.currentDay && "bg-white/5")}>
+                <div className="col-span-2">Day {day}</div>
+                <div className="col-span-4 flex items-center gap-2 text-white/70">
+                  {day === cadence.escalationDay ? (
+                    <><AlertTriangle size={14} /> Auto-escalate</>
+                  ) : planned && PlannedIcon ? (
+                    <><PlannedIcon size={14} /> {planned.channel.toUpperCase()} · {planned.templateId}</>
+                  ) : (
+                    "—"
+                  )}
+                </div>
+                <div className="col-span-6 text-xs">{status}</div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ComplianceCard({ enrollment, events }: { enrollment: Enrollment; events: TimelineEvent[] }) {
+  const { data: doNotContact } = useDoNotContact();
+  const violations = useMemo(() => checkCompliance(enrollment, events, doNotContact), [enrollment, events, doNotContact]);
+  const locale = borrowerLocale(enrollment);
+
+  return (
+    <Card className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base"><ShieldAlert size={16} /> Contact compliance</CardTitle>
+        <div className="text-xs text-white/50">
+          {locale
+            ? `${locale.state} · ${locale.timeZone} (from ${locale.source}) · borrower's time now ${formatLocalTime(serverNow(), locale.timeZone)} · ${describeRule(locale.rule)}`
+            : "Timezone unknown: no address state and the phone's area code isn't recognized."}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {violations.length ? (
+          <div className="divide-y divide-white/10">
+            {violations.map((violation, index) => (
+              <div key={`${violation.rule}-${violation.at}-${index}`} className="flex items-start justify-between gap-3 py-2 text-sm">
+                <div>
+                  <div className="text-red-200">{COMPLIANCE_RULE_LABELS[violation.rule]}</div>
+                  <div className="text-xs text-white/55">{violation.message}</div>
+                </div>
+                <div className="shrink-0 text-right text-xs text-white/55">
+                  {violation.source === "scheduled" ? "Next touch" : violation.channel?.toUpperCase() ?? "Touch"}
+                  <div>{formatDate(violation.at)}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-sm text-white/55">No sent or scheduled touches break a contact rule.</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RecordPaymentModal({ enrollment, onClose, onDone }: { enrollment: Enrollment | null; onClose: () => void; onDone: () => void }) {
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<PaymentMethod>("card");
+  const [reference, setReference] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!enrollment) return null;
+  const balance = remainingBalance(enrollment);
+  const value = Number(amount);
+  const amountError = amount.trim() ? paymentAmountError(enrollment, value) : null;
+  const settles = !amountError && amount.trim() !== "" && (balance == null || Math.round(value * 100) === Math.round(balance * 100));
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (amountError) return;
+    setSaving(true);
+    try {
+      await sequenceApi.recordPayment(enrollment.id, { amount: value, method, reference: reference.trim() || undefined });
+      setError(null);
+      onDone();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to record payment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/60 p-4">
+      <Card className={cx("w-full max-w-xl rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+        <CardHeader>
+          <CardTitle>Record payment</CardTitle>
+          <div className="text-sm text-white/55">
+            Borrower {enrollment.borrowerId} · {balance == null ? "No amount due on file" : `Remaining balance ${formatCurrency(balance)}`}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-3" onSubmit={onSubmit}>
+            <div className="flex gap-2">
+              <Input required type="number" min="0.01" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} placeholder="Amount" className="border-white/10 bg-white/5" />
+              {balance ? (
+                <Button type="button" variant="outline" className="border-white/10 bg-white/5" onClick={() => setAmount(balance.toFixed(2))}>Pay in full</Button>
+              ) : null}
+            </div>
+            <select value={method} onChange={(e) => setMethod(e.target.value as PaymentMethod)} className="w-full rounded-md border border-white/10 bg-[#120D20] p-2 text-sm">
+              {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((key) => <option key={key} value={key}>{PAYMENT_METHOD_LABELS[key]}</option>)}
+            </select>
+            <Input value={reference} onChange={(e) => setReference(e.target.value)} placeholder="Reference (confirmation #, check #)" className="border-white/10 bg-white/5" />
+            {amountError ? <div className="text-sm text-red-300">{amountError}</div> : null}
+            {amount.trim() && !amountError ? (
+              <div className="text-sm text-white/60">{settles ? "Settles the balance; the sequence will exit as paid." : `Partial payment; ${formatCurrency((balance ?? 0) - value)} will remain and touches continue.`}</div>
+            ) : null}
+            {error ? <div className="text-sm text-red-300">{error}</div> : null}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" className="border-white/10 bg-white/5" onClick={onClose}>Cancel</Button>
+              <Button type="submit" disabled={saving || !!amountError} style={{ backgroundColor: TOKENS.carpayBlue }}>{saving ? "Saving..." : "Record payment"}</Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
     </div>
   );
 }
 
+const AGENT_ACTIVITY_KINDS = Object.keys(AGENT_ACTIVITY_LABELS) as AgentActivityKind[];
+
+function AgentNoteForm({ enrollmentId }: { enrollmentId: string }) {
+  const [kind, setKind] = useState<AgentActivityKind>("note");
+  const [body, setBody] = useState("");
+  const [followUpDate, setFollowUpDate] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await sequenceApi.addNote(enrollmentId, { kind, body: body.trim(), followUpDate: followUpDate || undefined });
+      setBody("");
+      setFollowUpDate("");
+      setKind("note");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save the note");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className={cx("rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base"><StickyNote size={16} /> Log a note or contact</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form className="space-y-2" onSubmit={onSubmit}>
+          <div className="flex flex-wrap gap-2">
+            {AGENT_ACTIVITY_KINDS.map((item) => (
+              <FilterChip key={item} active={kind === item} onClick={() => setKind(item)}>{AGENT_ACTIVITY_LABELS[item]}</FilterChip>
+            ))}
+          </div>
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={3}
+            placeholder={kind === "note" ? "What should the next person know?" : "What was discussed?"}
+            className="w-full rounded-lg border border-white/10 bg-white/5 p-2 text-sm placeholder:text-white/40"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2 text-sm text-white/60">
+              Follow up on
+              <Input type="date" min={localDate(serverNow())} value={followUpDate} onChange={(e) => setFollowUpDate(e.target.value)} className="h-9 w-40 border-white/10 bg-white/5" />
+            </label>
+            <Button type="submit" disabled={saving || !body.trim()} className="ml-auto" style={{ backgroundColor: TOKENS.carpayBlue }}>{saving ? "Saving..." : "Add to timeline"}</Button>
+          </div>
+          {error ? <div className="text-sm text-red-300">{error}</div> : null}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
 function CustomerDetailPage({ enrollmentId, onBack }: { enrollmentId: string; onBack: () => void }) {
-  const { enrollment, events, loading, error, refresh } = useEnrollmentDetail(enrollmentId);
+  const { enrollment, events, quarantined, fresh, loading, error, refresh } = useEnrollmentDetail(enrollmentId);
+  const cadence = useCadence(enrollment?.cadenceId, enrollment?.cadenceVersion);
+  const [params, setParams] = useSearchParams();
+  const filters = parseTimelineFilters(params);
+  const visibleEvents = useMemo(() => filterTimeline(events, parseTimelineFilters(params)), [events, params]);
+  const brokenPromise = useMemo(
+    () => (enrollment ? buildPromises([{ enrollment, events }], serverNow()).reverse().find((promise) => promise.status === "broken") : undefined),
+    [enrollment, events],
+  );
   const [suppressReason, setSuppressReason] = useState("opt_out");
   const [escalateReason, setEscalateReason] = useState("");
+  const [reactivateReason, setReactivateReason] = useState("");
+  const [recordingPayment, setRecordingPayment] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const session = useSession();
+  const canPay = useCan("record-payment");
+  const canNote = useCan("add-note");
+  // Status decides which transitions exist; role decides which of those this user may perform.
+  const actions = enrollment ? allowedActions(enrollment.status).filter((action) => hasPermission(session?.user.role, action)) : [];
 
-  const runAction = async (action: "suppress" | "escalate") => {
+  const runAction = async (action: EnrollmentAction) => {
     if (!enrollment) return;
     setSaving(true);
+    setActionError(null);
     try {
       if (action === "suppress") await sequenceApi.suppressEnrollment(enrollment.id, { reason: suppressReason });
-      else await sequenceApi.escalateEnrollment(enrollment.id, { reason: escalateReason || "manual_escalation" });
+      else if (action === "escalate") await sequenceApi.escalateEnrollment(enrollment.id, { reason: escalateReason || "manual_escalation" });
+      else if (action === "resume") await sequenceApi.resumeEnrollment(enrollment.id, { reason: reactivateReason.trim() });
+      else await sequenceApi.deEscalateEnrollment(enrollment.id, { reason: reactivateReason.trim() });
+      setReactivateReason("");
       await refresh();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Action failed");
     } finally {
       setSaving(false);
     }
   };
 
+  const balance = enrollment ? remainingBalance(enrollment) : null;
+
   return (
     <div className="space-y-4">
+      <RecordPaymentModal key={String(recordingPayment)} enrollment={recordingPayment ? enrollment : null} onClose={() => setRecordingPayment(false)} onDone={refresh} />
       <Card className={cx("rounded-2xl border p-4", TOKENS.border, TOKENS.panel)}>
         <div className="flex items-start justify-between gap-3">
           <div className="flex min-w-0 items-start gap-3">
             <button onClick={onBack} className="mt-0.5 flex h-9 w-9 items-center justify-center rounded-xl border border-white/10 bg-white/5 text-white/70" type="button"><ArrowLeft size={16} /></button>
             <div>
               <div className="text-xl font-semibold">Enrollment {enrollmentId}</div>
-              <div className="text-sm text-white/55">Rigid cadence: Day 0 SMS → Day 10 escalation. Paid exits stop all future touches.</div>
+              <div className="text-sm text-white/55">
+                {cadence ? `Cadence: ${cadence.name} v${cadence.version} · Day 0 → Day ${cadence.escalationDay} escalation.` : "Cadence: dealer default."} Paid exits stop all future touches.
+              </div>
             </div>
           </div>
-          <Button variant="outline" className="border-white/10 bg-white/5" onClick={refresh}>Refresh</Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" className="border-white/10 bg-white/5" onClick={() => void navigator.clipboard?.writeText(window.location.href)}><Link2 size={14} /> Copy link</Button>
+            <ExportButtons
+              disabled={!events.length}
+              onExport={(format) => exportRows(format, `enrollment-${enrollmentId}-timeline`, events.map((event) => timelineExportRow(enrollmentId, event)), TIMELINE_EXPORT_COLUMNS)}
+            />
+            {enrollment && canPay && canRecordPayment(enrollment.status) ? (
+              <Button variant="outline" className="border-white/10 bg-white/5" onClick={() => setRecordingPayment(true)}><CircleDollarSign size={14} /> Record payment</Button>
+            ) : null}
+            <Button variant="outline" className="border-white/10 bg-white/5" onClick={refresh}>Refresh</Button>
+          </div>
         </div>
 
         {loading ? <div className="mt-4 h-12 animate-pulse rounded bg-white/10" /> : null}
@@ -479,46 +2971,379 @@ function CustomerDetailPage({ enrollmentId, onBack }: { enrollmentId: string; on
               <div className="text-white/70">Borrower: {enrollment.borrowerId}</div>
               <div className="text-white/70">Dealer: {enrollment.dealerId}</div>
               <div className="text-white/70">Next scheduled: {formatDate(enrollment.nextScheduledAt)}</div>
+              {balance != null ? (
+                <div className="text-white/70">
+                  Balance: <span className="text-white">{formatCurrency(balance)}</span>
+                  {enrollment.amountPaid ? ` · ${formatCurrency(enrollment.amountPaid)} of ${formatCurrency(enrollment.amountDue)} paid` : ""}
+                </div>
+              ) : null}
             </div>
 
-            <div className="mt-4 grid gap-3 md:grid-cols-2">
-              <div className="rounded-xl border border-white/10 bg-white/5 p-3">
-                <div className="mb-2 text-sm font-medium">Suppress</div>
-                <select value={suppressReason} onChange={(e) => setSuppressReason(e.target.value)} className="w-full rounded-md border border-white/10 bg-[#120D20] p-2 text-sm">
-                  <option value="opt_out">opt_out</option>
-                  <option value="wrong_number">wrong_number</option>
-                  <option value="manual">manual</option>
-                </select>
-                <Button disabled={saving} className="mt-2 w-full" variant="outline" onClick={() => void runAction("suppress")}>Suppress enrollment</Button>
+            {brokenPromise ? (
+              <div className="mt-3 flex items-center gap-2 rounded-xl border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-200">
+                <CalendarClock size={16} /> Broken promise to pay: borrower committed to {brokenPromise.promisedFor} on Day {brokenPromise.call.day} and no payment posted in time.
               </div>
+            ) : null}
+
+            {actions.length ? (
+              <div className="mt-4 grid gap-3 md:grid-cols-2">
+                {actions.includes("resume") || actions.includes("de-escalate") ? (
+                  <div className="rounded-xl border border-white/10 bg-white/5 p-3">
+                    <div className="mb-2 text-sm font-medium">{actions.includes("resume") ? "Resume sequence" : "Withdraw escalation"}</div>
+                    <Input value={reactivateReason} onChange={(e) => setReactivateReason(e.target.value)} placeholder="Reason (required)" className="border-white/10 bg-[#120D20]" />
+                    <Button
+                      disabled={saving || !reactivateReason.trim()}
+                      className="mt-2 w-full"
+                      style={{ backgroundColor: TOKENS.carpayBlue }}
+                      onClick={() => void runAction(actions.includes("resume") ? "resume" : "de-escalate")}
+                    >
+                      <RotateCcw size={14} /> Return to active
+                    </Button>
+                  </div>
+                ) : null}
+
+                {actions.includes("suppress") ? (
+                  <div className="rounded-xl border border-white/10 bg-white/5 p-3">
+                    <div className="mb-2 text-sm font-medium">Suppress</div>
+                    <select value={suppressReason} onChange={(e) => setSuppressReason(e.target.value)} className="w-full rounded-md border border-white/10 bg-[#120D20] p-2 text-sm">
+                      <option value="opt_out">opt_out</option>
+                      <option value="wrong_number">wrong_number</option>
+                      <option value="manual">manual</option>
+                    </select>
+                    <Button disabled={saving} className="mt-2 w-full" variant="outline" onClick={() => void runAction("suppress")}>Suppress enrollment</Button>
+                  </div>
+                ) : null}
 
-              <div className="rounded-xl border border-white/10 bg-white/5 p-3">
-                <div className="mb-2 text-sm font-medium">Escalate</div>
-                <Input value={escalateReason} onChange={(e) => setEscalateReason(e.target.value)} placeholder="Reason" className="border-white/10 bg-[#120D20]" />
-                <Button disabled={saving} className="mt-2 w-full" style={{ backgroundColor: TOKENS.red }} onClick={() => void runAction("escalate")}>Escalate enrollment</Button>
+                {actions.includes("escalate") ? (
+                  <div className="rounded-xl border border-white/10 bg-white/5 p-3">
+                    <div className="mb-2 text-sm font-medium">Escalate</div>
+                    <Input value={escalateReason} onChange={(e) => setEscalateReason(e.target.value)} placeholder="Reason" className="border-white/10 bg-[#120D20]" />
+                    <Button disabled={saving} className="mt-2 w-full" style={{ backgroundColor: TOKENS.red }} onClick={() => void runAction("escalate")}>Escalate enrollment</Button>
+                  </div>
+                ) : null}
               </div>
-            </div>
+            ) : (
+              <div className="mt-4 text-sm text-white/55">{enrollment.status === "PAID_EXIT"
+                  ? "Paid exit is final; no further actions are available."
+                  : `Your role (${session?.user.role ?? "signed out"}) can't change this enrollment.`}</div>
+            )}
+            {actionError ? <div className="mt-2 text-sm text-red-300">{actionError}</div> : null}
           </>
         ) : null}
       </Card>
 
-      <TimelineList events={events} />
+      {cadence && enrollment ? <CadencePlan cadence={cadence} enrollment={enrollment} events={events} /> : null}
+
+      {enrollment ? <ComplianceCard enrollment={enrollment} events={events} /> : null}
+
+      {enrollment ? <DayTracker cadence={cadence} enrollment={enrollment} events={events} /> : null}
+
+      {enrollment && canNote ? <AgentNoteForm enrollmentId={enrollment.id} /> : null}
+
+      <TimelineFilterBar filters={filters} onChange={(next) => setParams(timelineFilterParams(next))} shown={visibleEvents.length} total={events.length} />
+
+      <TimelineList
+        events={visibleEvents}
+        quarantined={quarantined}
+        highlighted={fresh}
+        emptyMessage={events.length ? "No events match these filters." : undefined}
+      />
+    </div>
+  );
+}
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "enrollment.created": "Enrolled",
+  "enrollment.assigned": "Assigned",
+  "enrollment.suppressed": "Suppressed",
+  "enrollment.escalated": "Escalated",
+  "enrollment.resumed": "Resumed",
+  "enrollment.de_escalated": "Escalation withdrawn",
+  "escalation.resolved": "Escalation resolved",
+  "payment.posted": "Payment posted",
+  "note.added": "Note logged",
+  "cadence.saved": "Cadence saved",
+  "cadence.assigned": "Cadence assigned",
+  "do_not_contact.added": "Added to do-not-contact",
+  "do_not_contact.removed": "Removed from do-not-contact",
+};
+
+const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[];
+const ACTOR_TYPES = Object.keys(ACTOR_TYPE_LABELS) as ActorType[];
+const NO_AUDIT_ENTRIES: AuditPage["entries"] = [];
+
+type AuditFilters = Omit<AuditQuery, "cursor" | "limit">;
+
+// Same paging as `useEnrollments`: revalidation refetches everything loaded, "Load more" appends.
+function useAuditLog(filters: AuditFilters) {
+  const key = queryKeys.audit(filters);
+  const query = useQuery(key, (signal) => {
+    const limit = Math.max(PAGE_SIZE, getQueryData<AuditPage>(key)?.entries.length ?? 0);
+    return sequenceApi.listAudit({ ...filters, limit }, { signal });
+  });
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const requests = useRequestGeneration();
+  const nextCursor = query.data?.nextCursor ?? null;
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    const signal = requests.next();
+    setLoadingMore(true);
+    try {
+      const page = await sequenceApi.listAudit({ ...filters, limit: PAGE_SIZE, cursor: nextCursor }, { signal });
+      setQueryData<AuditPage>(key, (current) =>
+        current?.nextCursor === nextCursor ? { entries: [...current.entries, ...page.entries], total: page.total, nextCursor: page.nextCursor } : current,
+      );
+      setLoadMoreError(null);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setLoadMoreError(err instanceof Error ? err.message : "Failed to load more audit entries");
+    } finally {
+      if (!signal.aborted) setLoadingMore(false);
+    }
+  };
+
+  useRefetchOnLiveChange(query.refresh);
+
+  return {
+    data: query.data?.entries ?? NO_AUDIT_ENTRIES,
+    total: query.data?.total ?? null,
+    hasMore: nextCursor != null,
+    loading: query.loading,
+    loadingMore,
+    error: errorText(query.error, "Failed to load the audit log") ?? loadMoreError,
+    refresh: query.refresh,
+    loadMore,
+  };
+}
+
+function AuditLogPage({ onOpenCustomer }: { onOpenCustomer: (id: string) => void }) {
+  const [params, setParams] = useSearchParams();
+  const search = params.get("q") ?? "";
+  const actorType = ACTOR_TYPES.find((type) => type === params.get("actor"));
+  const action = AUDIT_ACTIONS.find((item) => item === params.get("action"));
+  const from = params.get("from") ?? "";
+  const to = params.get("to") ?? "";
+  const q = useDebouncedValue(search.trim(), 300);
+  const dealerId = useCurrentDealer();
+  const filters: AuditFilters = { q: q || undefined, actorType, action, from: from || undefined, to: to || undefined, dealerId };
+  const { data, total, hasMore, loading, loadingMore, error, refresh, loadMore } = useAuditLog(filters);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const exportAll = async (format: ExportFormat) => {
+    setExporting(true);
+    setExportError(null);
+    try {
+      const rows = await sequenceApi.listAllAudit(filters);
+      exportRows(format, `audit-log-${toDateInput(new Date())}`, rows.map(auditExportRow), AUDIT_EXPORT_COLUMNS);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const filtered = !!(search.trim() || actorType || action || from || to);
+
+  return (
+    <Card className={cx("rounded-2xl border p-4", TOKENS.border, TOKENS.panel)}>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <div className="text-lg font-semibold">Audit log</div>
+          <div className="text-sm text-white/55">Who changed what, and when · newest first{total != null ? ` · ${total} entries` : ""}</div>
+        </div>
+        <div className="flex items-center gap-2">
+          <ExportButtons disabled={exporting || !data.length} onExport={(format) => void exportAll(format)} />
+          <Button variant="outline" onClick={refresh} className="border-white/10 bg-white/5">Refresh</Button>
+        </div>
+      </div>
+      {exportError ? <div className="-mt-2 mb-3 text-sm text-red-300">Export failed: {exportError}</div> : null}
+
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <div className="relative w-full md:w-72">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-white/40" />
+          <Input value={search} onChange={(e) => setParams({ q: e.target.value })} placeholder="Search person, borrower, enrollment, detail" className="h-9 border-white/10 bg-white/5 pl-8" />
+        </div>
+        <select value={actorType ?? ""} onChange={(e) => setParams({ actor: e.target.value })} className="h-9 rounded-lg border border-white/10 bg-[#120D20] px-2 text-sm">
+          <option value="">Anyone</option>
+          {ACTOR_TYPES.map((type) => <option key={type} value={type}>{ACTOR_TYPE_LABELS[type]}</option>)}
+        </select>
+        <select value={action ?? ""} onChange={(e) => setParams({ action: e.target.value })} className="h-9 rounded-lg border border-white/10 bg-[#120D20] px-2 text-sm">
+          <option value="">Any change</option>
+          {AUDIT_ACTIONS.map((item) => <option key={item} value={item}>{AUDIT_ACTION_LABELS[item]}</option>)}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-white/60">
+          From <Input type="date" value={from} max={to || undefined} onChange={(e) => setParams({ from: e.target.value })} className="h-9 w-40 border-white/10 bg-white/5" />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-white/60">
+          To <Input type="date" value={to} min={from || undefined} onChange={(e) => setParams({ to: e.target.value })} className="h-9 w-40 border-white/10 bg-white/5" />
+        </label>
+        {filtered ? (
+          <Button variant="outline" className="border-white/10 bg-white/5" onClick={() => setParams({ q: null, actor: null, action: null, from: null, to: null })}>Clear</Button>
+        ) : null}
+      </div>
+
+      {loading ? <div className="space-y-2">{Array.from({ length: 6 }).map((_, i) => <div key={i} className="h-10 animate-pulse rounded bg-white/10" />)}</div> : null}
+      {error ? <div className="text-red-300">{error}</div> : null}
+
+      {!loading ? (
+        <div className="divide-y divide-white/10">
+          <div className="grid grid-cols-12 gap-3 pb-2 text-xs text-white/50">
+            <div className="col-span-2">When</div>
+            <div className="col-span-3">Who</div>
+            <div className="col-span-2">Change</div>
+            <div className="col-span-2">Target</div>
+            <div className="col-span-3">Detail</div>
+          </div>
+          {data.map((entry) => {
+            const ActorIcon = ACTOR_ICONS[entry.actor.type];
+            return (
+              <div key={entry.id} className="grid grid-cols-12 items-start gap-3 py-2.5 text-sm">
+                <div className="col-span-2 text-white/70">{formatDate(entry.at)}</div>
+                <div className="col-span-3 min-w-0">
+                  <div className="flex items-center gap-1.5 truncate"><ActorIcon size={14} className="shrink-0 text-white/55" /> {actorLabel(entry.actor)}</div>
+                  <div className="text-xs text-white/45">{entry.source ? `from ${sourceLabel(entry.source)}` : ACTOR_TYPE_LABELS[entry.actor.type]}</div>
+                </div>
+                <div className="col-span-2">{AUDIT_ACTION_LABELS[entry.action]}</div>
+                <div className="col-span-2 min-w-0">
+                  {entry.enrollmentId ? (
+                    <button type="button" onClick={() => onOpenCustomer(entry.enrollmentId!)} className="text-left hover:underline">
+                      <div className="truncate">{entry.borrowerId ? `Borrower ${entry.borrowerId}` : entry.enrollmentId}</div>
+                      <div className="truncate text-xs text-white/45">{entry.enrollmentId}</div>
+                    </button>
+                  ) : (
+                    <>
+                      <div className="truncate">{entry.borrowerId ? `Borrower ${entry.borrowerId}` : entry.targetId}</div>
+                      {entry.borrowerId ? <div className="truncate text-xs text-white/45">{entry.targetId}</div> : null}
+                    </>
+                  )}
+                </div>
+                <div className="col-span-3 break-words text-white/70">{entry.detail}</div>
+              </div>
+            );
+          })}
+          {!data.length && !error ? <div className="py-6 text-white/55">{filtered ? "No changes match these filters." : "Nothing has been changed yet."}</div> : null}
+          <LoadMore hasMore={hasMore} loading={loadingMore} onLoadMore={loadMore} />
+        </div>
+      ) : null}
+    </Card>
+  );
+}
+
+type Route = { tab: SidebarKey; enrollmentId: string | null };
+
+function parseRoute(pathname: string): Route {
+  const [section, id] = pathname.split("/").filter(Boolean);
+  if (section === "enrollments" && id) return { tab: "customers", enrollmentId: decodeURIComponent(id) };
+  const tab = SIDEBAR.find((item) => item.key === section)?.key ?? "dashboard";
+  return { tab, enrollmentId: null };
+}
+
+function tabPath(tab: SidebarKey) {
+  return tab === "dashboard" ? "/" : `/${tab}`;
+}
+
+const LOGIN_PATH = "/login";
+
+// Only same-app paths are honoured as a post-login destination.
+function loginDestination(next: string | null) {
+  return next && next.startsWith("/") && !next.startsWith("//") && !next.startsWith(LOGIN_PATH) ? next : "/";
+}
+
+function LoginPage() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await authApi.login({ email: email.trim(), password });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to sign in");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className={cx("grid min-h-screen place-items-center p-4 text-white", TOKENS.bg)}>
+      <Card className={cx("w-full max-w-sm rounded-2xl border", TOKENS.border, TOKENS.panel)}>
+        <CardHeader>
+          <CardTitle>Sign in to Carpay / Collect</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-3" onSubmit={onSubmit}>
+            <Input required type="email" autoComplete="username" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Email" className="border-white/10 bg-white/5" />
+            <Input required type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" className="border-white/10 bg-white/5" />
+            {error ? <div className="text-sm text-red-300">{error}</div> : null}
+            <Button type="submit" disabled={saving} className="w-full" style={{ backgroundColor: TOKENS.carpayBlue }}>{saving ? "Signing in..." : "Sign in"}</Button>
+          </form>
+          {mockBackend ? (
+            <div className="mt-4 space-y-1 border-t border-white/10 pt-3 text-xs text-white/55">
+              <div>Mock API demo accounts (password "demo"):</div>
+              {mockBackend.MOCK_USERS.map((user) => (
+                <button
+                  key={user.id}
+                  type="button"
+                  className="block w-full rounded-lg px-2 py-1 text-left hover:bg-white/5"
+                  onClick={() => {
+                    setEmail(user.email);
+                    setPassword("demo");
+                  }}
+                >
+                  {user.email} · {user.role}
+                </button>
+              ))}
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
     </div>
   );
 }
 
 export default function App() {
-  const [route, setRoute] = useState<{ tab: SidebarKey; enrollmentId: string | null }>({ tab: "dashboard", enrollmentId: null });
-  const active: SidebarKey = route.enrollmentId ? "customers" : route.tab;
+  const pathname = usePathname();
+  const session = useSession();
+  const [params] = useSearchParams();
+  const route = parseRoute(pathname);
+  const openCustomer = (id: string) => navigate(enrollmentPath(id));
+
+  // Signing out, or the API ending the session, lands on the login page with a way back to where the user was.
+  useEffect(() => {
+    if (!session && pathname !== LOGIN_PATH) {
+      navigate(`${LOGIN_PATH}?${new URLSearchParams({ next: `${pathname}${window.location.search}` }).toString()}`, { replace: true });
+    } else if (session && pathname === LOGIN_PATH) {
+      navigate(loginDestination(params.get("next")), { replace: true });
+    }
+  }, [session, pathname, params]);
+
+  if (!session || pathname === LOGIN_PATH) return <LoginPage />;
 
   return (
-    <Shell active={active} onNavigate={(k) => setRoute({ tab: k, enrollmentId: null })}>
+    <Shell active={route.tab} onNavigate={(k) => navigate(tabPath(k))}>
       {route.enrollmentId ? (
-        <CustomerDetailPage enrollmentId={route.enrollmentId} onBack={() => setRoute((r) => ({ ...r, enrollmentId: null }))} />
+        <CustomerDetailPage key={route.enrollmentId} enrollmentId={route.enrollmentId} onBack={() => navigateBack(tabPath("customers"))} />
       ) : route.tab === "customers" ? (
-        <CustomersPage onOpenCustomer={(id) => setRoute({ tab: "customers", enrollmentId: id })} />
+        <CustomersPage onOpenCustomer={openCustomer} />
+      ) : route.tab === "settings" ? (
+        <SettingsPage />
+      ) : route.tab === "reports" ? (
+        <ReportsPage onOpenCustomer={openCustomer} />
+      ) : route.tab === "escalations" ? (
+        <EscalationsPage onOpenCustomer={openCustomer} />
+      ) : route.tab === "promises" ? (
+        <PromisesPage onOpenCustomer={openCustomer} />
+      ) : route.tab === "audit" ? (
+        <AuditLogPage onOpenCustomer={openCustomer} />
       ) : (
-        <DashboardPage onOpenCustomer={(id) => setRoute({ tab: "dashboard", enrollmentId: id })} />
+        <DashboardPage onOpenCustomer={openCustomer} />
       )}
     </Shell>
   );
@@ -1,13 +1,66 @@
 import type {
+  AddAgentNotePayload,
+  AddDoNotContactPayload,
+  AgentNoteEvent,
+  AssignCadencePayload,
+  AssignPayload,
+  AuditEntry,
+  AuditPage,
+  AuditQuery,
+  AuthUser,
+  Cadence,
   CreateEnrollmentPayload,
+  Dealer,
+  DoNotContactEntry,
+  DuplicateMatch,
   Enrollment,
+  EnrollmentPage,
   EnrollmentStatus,
+  EnrollmentSummary,
+  EnrollmentLookupQuery,
+  EnrollmentTimeline,
+  EscalationQueueItem,
+  ListEnrollmentsQuery,
+  LoginPayload,
+  QuarantinedEvent,
   ReasonPayload,
+  RefreshPayload,
+  RecordPaymentPayload,
+  ResolveEscalationPayload,
+  SaveCadencePayload,
+  Session,
   TimelineEvent,
   TimelineResponse,
+  ValidationIssue,
 } from "../types/sequence";
+import { getSession, setSession } from "./auth";
+import { mutate, queryUpdate, resetQueryCache, type MutationEffects, type QueryKey, type QueryUpdate } from "./queryCache";
+import { currentScreen } from "./router";
+import {
+  describeIssues,
+  isRecord,
+  validateAuthResponse,
+  validateCadence,
+  validateDealer,
+  validateAuditEntry,
+  validateDoNotContactEntry,
+  validateDuplicateMatch,
+  validateEnrollment,
+  validateList,
+  validateSummary,
+  validateTimelineEvent,
+} from "./validation";
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL?.replace(/\/$/, "") ?? "";
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL?.replace(/\/$/, "") ?? "";
+
+// The in-browser backend, with its seeded borrowers and demo credentials. Loaded behind the env check
+// itself, which Vite replaces at build time, so a build without the mock never bundles it.
+export const mockBackend = import.meta.env.VITE_MOCK_API === "true" ? await import("./mockServer") : null;
+
+// Current time as the API sees it; the mock backend runs on its own simulated clock.
+export function serverNow() {
+  return mockBackend ? mockBackend.getMockNow() : new Date();
+}
 
 export class ApiError extends Error {
   status: number;
@@ -21,6 +74,49 @@ export class ApiError extends Error {
   }
 }
 
+export class ApiValidationError extends ApiError {
+  issues: ValidationIssue[];
+
+  constructor(what: string, issues: ValidationIssue[], payload: unknown) {
+    super(`Invalid ${what} from API: ${describeIssues(issues)}`, 200, payload);
+    this.name = "ApiValidationError";
+    this.issues = issues;
+  }
+}
+
+export class ApiTimeoutError extends ApiError {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`, 0, null);
+    this.name = "ApiTimeoutError";
+  }
+}
+
+// Cancellation by the caller is not a failure; hooks check for it and drop the response silently.
+export function isAbortError(err: unknown) {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Sent as `Idempotency-Key`, and what makes a POST safe to retry: the server replays the first result.
+  idempotencyKey?: string;
+  // Screen the change was made from, for the audit log; defaults to the current page.
+  source?: string;
+}
+
+export function newIdempotencyKey() {
+  // randomUUID is only exposed in secure contexts; plain-http dev hosts get a random fallback.
+  return typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+const REQUEST_TIMEOUT_MS = 15_000;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 300;
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
 async function parseJson(response: Response) {
   const text = await response.text();
   if (!text) return null;
@@ -32,16 +128,130 @@ async function parseJson(response: Response) {
   }
 }
 
-async function request<T>(path: string, init?: RequestInit): Promise<T> {
-  const response = await fetch(`${API_BASE_URL}${path}`, {
+function send(path: string, init: RequestInit) {
+  return mockBackend ? mockBackend.mockFetch(path, init) : fetch(`${API_BASE_URL}${path}`, init);
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// One send, bounded by the timeout, with the body read inside the same window. The caller's signal
+// cancels it outright; the timeout surfaces as ApiTimeoutError so it can be retried.
+async function attempt(path: string, init: RequestInit, options: RequestOptions) {
+  options.signal?.throwIfAborted();
+  const timeoutMs = options.timeoutMs ?? REQUEST_TIMEOUT_MS;
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(options.signal?.reason);
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    const response = await send(path, { ...init, signal: controller.signal });
+    return { response, payload: await parseJson(response) };
+  } catch (err) {
+    if (timedOut) throw new ApiTimeoutError(timeoutMs);
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+// GETs, and POSTs carrying an idempotency key, are retried on network errors, timeouts and transient
+// statuses with full-jitter exponential backoff. Anything else gets exactly one attempt.
+async function sendWithRetry(path: string, init: RequestInit, options: RequestOptions) {
+  const retryable = init.method === "GET" || !!options.idempotencyKey;
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    const last = !retryable || attemptNumber >= MAX_ATTEMPTS;
+    try {
+      const result = await attempt(path, init, options);
+      if (last || !RETRYABLE_STATUSES.has(result.response.status)) return result;
+    } catch (err) {
+      if (last || isAbortError(err)) throw err;
+    }
+    await wait(Math.random() * RETRY_BASE_MS * 2 ** (attemptNumber - 1), options.signal);
+  }
+}
+
+function withToken(init: RequestInit, session: Session | null): RequestInit {
+  if (!session) return init;
+  return { ...init, headers: { ...(init.headers as Record<string, string>), Authorization: `Bearer ${session.accessToken}` } };
+}
+
+function sessionFromPayload(payload: unknown): Session {
+  const valid = expectValid<{ accessToken: string; refreshToken: string; expiresIn: number; user: AuthUser }>(payload, validateAuthResponse, "auth response");
+  return { accessToken: valid.accessToken, refreshToken: valid.refreshToken, expiresAt: Date.now() + valid.expiresIn * 1000, user: valid.user };
+}
+
+// Refresh slightly early so a token doesn't lapse between this check and the server reading it.
+const TOKEN_REFRESH_MARGIN_MS = 30_000;
+
+let refreshing: Promise<Session | null> | null = null;
+
+// Concurrent requests that find the token stale share one refresh. Resolves null when the server rejects
+// the refresh token, which ends the session; network failures throw and leave the session in place.
+function refreshSession(current: Session): Promise<Session | null> {
+  refreshing ??= (async () => {
+    try {
+      const response = await send("/api/auth/refresh", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken: current.refreshToken } satisfies RefreshPayload),
+      });
+      const payload = await parseJson(response);
+      if (response.status === 400 || response.status === 401) {
+        setSession(null);
+        return null;
+      }
+      if (!response.ok) throw new ApiError(`Session refresh failed (${response.status})`, response.status, payload);
+      const next = sessionFromPayload(payload);
+      setSession(next);
+      return next;
+    } finally {
+      refreshing = null;
+    }
+  })();
+  return refreshing;
+}
+
+async function request<T>(path: string, init: RequestInit, options: RequestOptions = {}): Promise<T> {
+  const requestInit: RequestInit = {
+    ...init,
     headers: {
       "Content-Type": "application/json",
-      ...(init?.headers ?? {}),
+      ...(options.idempotencyKey ? { "Idempotency-Key": options.idempotencyKey } : {}),
+      ...(init.method !== "GET" ? { "X-Source-Screen": options.source ?? currentScreen() } : {}),
+      ...(init.headers ?? {}),
     },
-    ...init,
-  });
+  };
 
-  const payload = await parseJson(response);
+  let session = getSession();
+  if (session && session.expiresAt - Date.now() < TOKEN_REFRESH_MARGIN_MS) session = await refreshSession(session);
+  let { response, payload } = await sendWithRetry(path, withToken(requestInit, session), options);
+  // A token can be revoked before it expires; refresh once and retry before treating the session as over.
+  if (response.status === 401 && session) {
+    session = await refreshSession(session);
+    if (session) ({ response, payload } = await sendWithRetry(path, withToken(requestInit, session), options));
+  }
+  if (response.status === 401 && getSession()) setSession(null);
+  // A response that lands after its caller moved on must not be applied.
+  options.signal?.throwIfAborted();
 
   if (!response.ok) {
     const message =
@@ -54,59 +264,464 @@ async function request<T>(path: string, init?: RequestInit): Promise<T> {
   return payload as T;
 }
 
-export async function apiGet<T>(path: string): Promise<T> {
-  return request<T>(path, { method: "GET" });
+export async function apiGet<T>(path: string, options?: RequestOptions): Promise<T> {
+  return request<T>(path, { method: "GET" }, options);
+}
+
+export async function apiPost<TResponse, TBody = unknown>(path: string, body?: TBody, options?: RequestOptions): Promise<TResponse> {
+  return request<TResponse>(
+    path,
+    {
+      method: "POST",
+      body: body == null ? undefined : JSON.stringify(body),
+    },
+    options,
+  );
+}
+
+function expectValid<T>(payload: unknown, validate: (value: unknown, path: string) => ValidationIssue[], what: string): T {
+  const issues = validate(payload, "$");
+  if (issues.length) throw new ApiValidationError(what, issues, payload);
+  return payload as T;
+}
+
+function expectValidList<T>(items: unknown[], validate: (value: unknown, path: string) => ValidationIssue[], what: string, payload: unknown): T[] {
+  const issues = validateList(items, "$", validate);
+  if (issues.length) throw new ApiValidationError(what, issues, payload);
+  return items as T[];
 }
 
-export async function apiPost<TResponse, TBody = unknown>(path: string, body?: TBody): Promise<TResponse> {
-  return request<TResponse>(path, {
-    method: "POST",
-    body: body == null ? undefined : JSON.stringify(body),
+async function enrollmentResponse(pending: Promise<unknown>) {
+  return expectValid<Enrollment>(await pending, validateEnrollment, "enrollment");
+}
+
+function partitionEvents(items: unknown[]) {
+  const events: TimelineEvent[] = [];
+  const quarantined: QuarantinedEvent[] = [];
+  items.forEach((raw, index) => {
+    const issues = validateTimelineEvent(raw, `$.events[${index}]`);
+    if (issues.length) quarantined.push({ raw, issues });
+    else events.push(raw as TimelineEvent);
   });
+  return { events, quarantined };
 }
 
-function normalizeEnrollmentList(payload: unknown): Enrollment[] {
-  if (Array.isArray(payload)) return payload as Enrollment[];
-  if (payload && typeof payload === "object") {
-    if (Array.isArray((payload as { enrollments?: unknown }).enrollments)) {
-      return (payload as { enrollments: Enrollment[] }).enrollments;
-    }
-    if (Array.isArray((payload as { data?: unknown }).data)) {
-      return (payload as { data: Enrollment[] }).data;
-    }
+// Accepts a bare array or `{ enrollments | data }`, with paging metadata either at the top level
+// (`nextCursor`, `total`) or nested under `pagination`. A bare array is treated as a single, final page.
+function normalizeEnrollmentList(payload: unknown): EnrollmentPage {
+  let items: unknown[] | null = null;
+  let meta: Record<string, unknown> = {};
+  if (Array.isArray(payload)) items = payload;
+  else if (isRecord(payload)) {
+    if (Array.isArray(payload.enrollments)) items = payload.enrollments;
+    else if (Array.isArray(payload.data)) items = payload.data;
+    meta = isRecord(payload.pagination) ? payload.pagination : payload;
   }
 
-  throw new ApiError("Expected enrollments array from API", 200, payload);
+  if (!items) throw new ApiError("Expected enrollments array from API", 200, payload);
+  const enrollments = expectValidList<Enrollment>(items, validateEnrollment, "enrollments", payload);
+  const nextCursor = typeof meta.nextCursor === "string" && meta.nextCursor ? meta.nextCursor : null;
+  const total = typeof meta.total === "number" ? meta.total : Array.isArray(payload) ? enrollments.length : null;
+  return { enrollments, nextCursor, total };
 }
 
+function normalizeAuditPage(payload: unknown): AuditPage {
+  let items: unknown[] | null = null;
+  let meta: Record<string, unknown> = {};
+  if (isRecord(payload) && Array.isArray(payload.entries)) {
+    items = payload.entries;
+    meta = isRecord(payload.pagination) ? payload.pagination : payload;
+  }
+
+  if (!items) throw new ApiError("Expected audit entries from API", 200, payload);
+  const entries = expectValidList<AuditEntry>(items, validateAuditEntry, "audit entries", payload);
+  const nextCursor = typeof meta.nextCursor === "string" && meta.nextCursor ? meta.nextCursor : null;
+  const total = typeof meta.total === "number" ? meta.total : null;
+  return { entries, nextCursor, total };
+}
+
+function auditQuery(query: AuditQuery) {
+  const params = new URLSearchParams();
+  if (query.q?.trim()) params.set("q", query.q.trim());
+  if (query.actorType) params.set("actorType", query.actorType);
+  if (query.action) params.set("action", query.action);
+  if (query.from) params.set("from", query.from);
+  if (query.to) params.set("to", query.to);
+  if (query.dealerId) params.set("dealerId", query.dealerId);
+  if (query.cursor) params.set("cursor", query.cursor);
+  if (query.limit) params.set("limit", String(query.limit));
+  return params.toString();
+}
+
+function listQuery(status: EnrollmentStatus, query: ListEnrollmentsQuery) {
+  const params = new URLSearchParams({ status });
+  if (query.dealerId) params.set("dealerId", query.dealerId);
+  if (query.q?.trim()) params.set("q", query.q.trim());
+  if (query.sort) params.set("sort", query.sort);
+  if (query.order) params.set("order", query.order);
+  if (query.cursor) params.set("cursor", query.cursor);
+  if (query.limit) params.set("limit", String(query.limit));
+  return params.toString();
+}
+
+// Aggregate endpoints take the same optional dealer scope as the list; omitted means all dealers.
+function dealerQuery(dealerId?: string | null) {
+  return dealerId ? `?${new URLSearchParams({ dealerId }).toString()}` : "";
+}
+
+const EXPORT_PAGE_SIZE = 200;
+
 function normalizeTimeline(payload: unknown): TimelineResponse {
-  if (payload && typeof payload === "object" && Array.isArray((payload as { events?: unknown }).events)) {
-    return { events: (payload as { events: TimelineEvent[] }).events };
+  if (isRecord(payload) && Array.isArray(payload.events)) {
+    return partitionEvents(payload.events);
   }
 
   throw new ApiError("Expected timeline response with events[]", 200, payload);
 }
 
+function normalizeEscalationQueue(payload: unknown): EscalationQueueItem[] {
+  let items: unknown[] | null = null;
+  if (Array.isArray(payload)) items = payload;
+  else if (isRecord(payload)) {
+    if (Array.isArray(payload.items)) items = payload.items;
+    else if (Array.isArray(payload.data)) items = payload.data;
+  }
+
+  if (!items) throw new ApiError("Expected escalation queue array from API", 200, payload);
+  return items.map((item, index) => {
+    const path = `$[${index}]`;
+    if (!isRecord(item)) throw new ApiValidationError("escalation queue", [{ path, message: "must be an object" }], payload);
+    const issues = validateEnrollment(item.enrollment, `${path}.enrollment`);
+    if (typeof item.escalatedAt !== "string" || Number.isNaN(Date.parse(item.escalatedAt))) {
+      issues.push({ path: `${path}.escalatedAt`, message: "must be an ISO date string" });
+    }
+    if (typeof item.reason !== "string") issues.push({ path: `${path}.reason`, message: "must be a string" });
+    if (issues.length) throw new ApiValidationError("escalation queue", issues, payload);
+
+    // The last call is context only, so a malformed one is dropped instead of failing the queue.
+    const lastCall =
+      isRecord(item.lastCall) && item.lastCall.type === "CALL_COMPLETED" && !validateTimelineEvent(item.lastCall, `${path}.lastCall`).length
+        ? item.lastCall
+        : null;
+    return { ...item, lastCall } as EscalationQueueItem;
+  });
+}
+
+function normalizeTimelines(payload: unknown): EnrollmentTimeline[] {
+  let items: unknown[] | null = null;
+  if (Array.isArray(payload)) items = payload;
+  else if (isRecord(payload) && Array.isArray(payload.timelines)) items = payload.timelines;
+
+  if (!items) throw new ApiError("Expected timelines array from API", 200, payload);
+  return items.map((item, index) => {
+    const path = `$[${index}]`;
+    if (!isRecord(item) || !Array.isArray(item.events)) {
+      throw new ApiValidationError("timelines", [{ path, message: "must be an object with events[]" }], payload);
+    }
+    const enrollment = expectValid<Enrollment>(item.enrollment, (value) => validateEnrollment(value, `${path}.enrollment`), "timelines");
+    // Aggregations skip quarantined events; the detail page is where they are surfaced.
+    return { enrollment, events: partitionEvents(item.events).events };
+  });
+}
+
+function normalizeDealerList(payload: unknown): Dealer[] {
+  let items: unknown[] | null = null;
+  if (Array.isArray(payload)) items = payload;
+  else if (isRecord(payload)) {
+    if (Array.isArray(payload.dealers)) items = payload.dealers;
+    else if (Array.isArray(payload.data)) items = payload.data;
+  }
+
+  if (!items) throw new ApiError("Expected dealers array from API", 200, payload);
+  return expectValidList<Dealer>(items, validateDealer, "dealers", payload);
+}
+
+function normalizeCadenceList(payload: unknown): Cadence[] {
+  let items: unknown[] | null = null;
+  if (Array.isArray(payload)) items = payload;
+  else if (isRecord(payload)) {
+    if (Array.isArray(payload.cadences)) items = payload.cadences;
+    else if (Array.isArray(payload.data)) items = payload.data;
+  }
+
+  if (!items) throw new ApiError("Expected cadences array from API", 200, payload);
+  return expectValidList<Cadence>(items, validateCadence, "cadences", payload);
+}
+
+function normalizeDuplicateMatches(payload: unknown): DuplicateMatch[] {
+  let items: unknown[] | null = null;
+  if (Array.isArray(payload)) items = payload;
+  else if (isRecord(payload) && Array.isArray(payload.matches)) items = payload.matches;
+
+  if (!items) throw new ApiError("Expected duplicate matches from API", 200, payload);
+  return expectValidList<DuplicateMatch>(items, validateDuplicateMatch, "duplicate matches", payload);
+}
+
+function normalizeDoNotContactList(payload: unknown): DoNotContactEntry[] {
+  let items: unknown[] | null = null;
+  if (Array.isArray(payload)) items = payload;
+  else if (isRecord(payload) && Array.isArray(payload.entries)) items = payload.entries;
+
+  if (!items) throw new ApiError("Expected do-not-contact entries from API", 200, payload);
+  return expectValidList<DoNotContactEntry>(items, validateDoNotContactEntry, "do-not-contact entries", payload);
+}
+
+export const authApi = {
+  async login(payload: LoginPayload) {
+    const session = sessionFromPayload(await apiPost<unknown, LoginPayload>("/api/auth/login", payload));
+    // Nothing cached under the previous user is carried over to the next one.
+    resetQueryCache();
+    setSession(session);
+    return session;
+  },
+  // Signing out locally never waits on the server; revoking the refresh token is best effort.
+  async logout() {
+    const current = getSession();
+    setSession(null);
+    resetQueryCache();
+    if (current) await apiPost<unknown, RefreshPayload>("/api/auth/logout", { refreshToken: current.refreshToken }).catch(() => undefined);
+  },
+};
+
+// EventSource can't send an Authorization header, so each stream connection presents a short-lived,
+// single-use ticket instead. Fetching it goes through `request`, which refreshes a stale session first.
+export const streamApi = {
+  async createTicket(options?: RequestOptions) {
+    const payload = await apiPost<unknown>("/api/stream/tickets", undefined, options);
+    if (!isRecord(payload) || typeof payload.ticket !== "string") {
+      throw new ApiValidationError("stream ticket", [{ path: "$.ticket", message: "expected a string" }], payload);
+    }
+    return payload.ticket;
+  },
+};
+
+// State-changing enrollment calls always carry an idempotency key so the retry layer can resend them.
+// Pass one in to make a user-level retry (e.g. re-running a failed import row) dedupe as well.
+function idempotent(options?: RequestOptions): RequestOptions {
+  return { ...options, idempotencyKey: options?.idempotencyKey ?? newIdempotencyKey() };
+}
+
+// Cache keys for the reads below. Each family has a bare prefix so a mutation can invalidate every
+// variant (all statuses, all dealers) at once.
+export const queryKeys = {
+  enrollmentLists: ["enrollments"] as QueryKey,
+  enrollmentList: (status: EnrollmentStatus, query: ListEnrollmentsQuery): QueryKey => ["enrollments", status, query],
+  enrollment: (id: string): QueryKey => ["enrollment", id],
+  duplicateLookups: ["enrollment-lookup"] as QueryKey,
+  duplicates: (query: EnrollmentLookupQuery): QueryKey => ["enrollment-lookup", query],
+  timeline: (id: string): QueryKey => ["timeline", id],
+  summaries: ["summary"] as QueryKey,
+  summary: (dealerId: string | null): QueryKey => ["summary", dealerId],
+  escalationQueues: ["escalations"] as QueryKey,
+  escalations: (dealerId: string | null): QueryKey => ["escalations", dealerId],
+  timelineLists: ["timelines"] as QueryKey,
+  timelines: (dealerId: string | null): QueryKey => ["timelines", dealerId],
+  dealers: ["dealers"] as QueryKey,
+  doNotContact: ["do-not-contact"] as QueryKey,
+  cadenceLists: ["cadences"] as QueryKey,
+  cadenceVersions: (id: string): QueryKey => ["cadence", id],
+  cadence: (id: string, version?: number | null): QueryKey => ["cadence", id, version ?? null],
+  auditLists: ["audit"] as QueryKey,
+  audit: (query: AuditQuery): QueryKey => ["audit", query],
+};
+
+// Every change leaves an audit entry behind, so an open audit view is stale once a mutation settles.
+function auditedMutate<T>(run: () => Promise<T>, effects: MutationEffects<T>) {
+  return mutate(run, { ...effects, invalidates: [...(effects.invalidates ?? []), queryKeys.auditLists] });
+}
+
+// Rewrites every cached copy of one enrollment: its detail entry, and each loaded list page, where it
+// is replaced if it still matches the list's status and dropped if it no longer does. Lists it newly
+// belongs to pick it up when they're invalidated.
+export function patchEnrollment(id: string, patch: (enrollment: Enrollment) => Enrollment): QueryUpdate[] {
+  return [
+    queryUpdate<Enrollment>(queryKeys.enrollment(id), patch),
+    queryUpdate<EnrollmentPage>(queryKeys.enrollmentLists, (page, key) => {
+      const current = page.enrollments.find((enrollment) => enrollment.id === id);
+      if (!current) return page;
+      const next = patch(current);
+      if (next.status === key[1]) return { ...page, enrollments: page.enrollments.map((enrollment) => (enrollment.id === id ? next : enrollment)) };
+      return { ...page, enrollments: page.enrollments.filter((enrollment) => enrollment.id !== id), total: page.total == null ? null : page.total - 1 };
+    }),
+  ];
+}
+
+// Anything that changes an enrollment's status, balance or history moves the aggregates built from it.
+function enrollmentChanged(id: string): QueryKey[] {
+  return [queryKeys.enrollmentLists, queryKeys.timeline(id), queryKeys.summaries, queryKeys.escalationQueues, queryKeys.timelineLists];
+}
+
+function transition(id: string, action: string, status: EnrollmentStatus, payload: ReasonPayload, options?: RequestOptions) {
+  return auditedMutate(() => enrollmentResponse(apiPost<unknown, ReasonPayload>(`/api/enrollments/${id}/${action}`, payload, idempotent(options))), {
+    optimistic: patchEnrollment(id, (enrollment) => ({ ...enrollment, status })),
+    apply: (enrollment) => patchEnrollment(id, () => enrollment),
+    invalidates: enrollmentChanged(id),
+  });
+}
+
 export const sequenceApi = {
-  async listEnrollments(status: EnrollmentStatus) {
-    const params = new URLSearchParams({ status });
-    const payload = await apiGet<unknown>(`/api/enrollments?${params.toString()}`);
+  async listEnrollments(status: EnrollmentStatus, query: ListEnrollmentsQuery = {}, options?: RequestOptions) {
+    const payload = await apiGet<unknown>(`/api/enrollments?${listQuery(status, query)}`, options);
     return normalizeEnrollmentList(payload);
   },
-  createEnrollment(payload: CreateEnrollmentPayload) {
-    return apiPost<Enrollment, CreateEnrollmentPayload>("/api/enrollments", payload);
+  // Follows cursors until the list is exhausted; for exports, not for rendering.
+  async listAllEnrollments(status: EnrollmentStatus, query: Omit<ListEnrollmentsQuery, "cursor" | "limit"> = {}, options?: RequestOptions) {
+    const all: Enrollment[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await sequenceApi.listEnrollments(status, { ...query, cursor, limit: EXPORT_PAGE_SIZE }, options);
+      all.push(...page.enrollments);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return all;
+  },
+  createEnrollment(payload: CreateEnrollmentPayload, options?: RequestOptions) {
+    return auditedMutate(() => enrollmentResponse(apiPost<unknown, CreateEnrollmentPayload>("/api/enrollments", payload, idempotent(options))), {
+      invalidates: [queryKeys.enrollmentLists, queryKeys.duplicateLookups, queryKeys.summaries, queryKeys.timelineLists],
+    });
+  },
+  async getSummary(dealerId?: string | null, options?: RequestOptions) {
+    return expectValid<EnrollmentSummary>(await apiGet<unknown>(`/api/summary${dealerQuery(dealerId)}`, options), validateSummary, "summary");
   },
-  getEnrollment(id: string) {
-    return apiGet<Enrollment>(`/api/enrollments/${id}`);
+  // Existing enrollments that look like the same borrower: same borrowerId at the dealer, or same phone anywhere.
+  async findDuplicates(query: EnrollmentLookupQuery, options?: RequestOptions) {
+    const params = new URLSearchParams();
+    if (query.borrowerId) params.set("borrowerId", query.borrowerId);
+    if (query.dealerId) params.set("dealerId", query.dealerId);
+    if (query.phone) params.set("phone", query.phone);
+    const payload = await apiGet<unknown>(`/api/enrollments/lookup?${params.toString()}`, options);
+    return normalizeDuplicateMatches(payload);
   },
-  async getTimeline(id: string) {
-    const payload = await apiGet<unknown>(`/api/enrollments/${id}/timeline`);
+  getEnrollment(id: string, options?: RequestOptions) {
+    return enrollmentResponse(apiGet<unknown>(`/api/enrollments/${id}`, options));
+  },
+  async getTimeline(id: string, options?: RequestOptions) {
+    const payload = await apiGet<unknown>(`/api/enrollments/${id}/timeline`, options);
     return normalizeTimeline(payload);
   },
-  suppressEnrollment(id: string, payload: ReasonPayload) {
-    return apiPost<Enrollment, ReasonPayload>(`/api/enrollments/${id}/suppress`, payload);
+  suppressEnrollment(id: string, payload: ReasonPayload, options?: RequestOptions) {
+    return transition(id, "suppress", "SUPPRESSED", payload, options);
+  },
+  escalateEnrollment(id: string, payload: ReasonPayload, options?: RequestOptions) {
+    return transition(id, "escalate", "ESCALATED", payload, options);
+  },
+  resumeEnrollment(id: string, payload: ReasonPayload, options?: RequestOptions) {
+    return transition(id, "resume", "ACTIVE", payload, options);
+  },
+  deEscalateEnrollment(id: string, payload: ReasonPayload, options?: RequestOptions) {
+    return transition(id, "de-escalate", "ACTIVE", payload, options);
+  },
+  // No optimistic write: whether the payment clears the balance (and exits the sequence) is the server's call.
+  recordPayment(id: string, payload: RecordPaymentPayload, options?: RequestOptions) {
+    return auditedMutate(() => enrollmentResponse(apiPost<unknown, RecordPaymentPayload>(`/api/enrollments/${id}/payments`, payload, idempotent(options))), {
+      apply: (enrollment) => patchEnrollment(id, () => enrollment),
+      invalidates: enrollmentChanged(id),
+    });
+  },
+  async listTimelines(dealerId?: string | null, options?: RequestOptions) {
+    const payload = await apiGet<unknown>(`/api/timelines${dealerQuery(dealerId)}`, options);
+    return normalizeTimelines(payload);
+  },
+  async listEscalations(dealerId?: string | null, options?: RequestOptions) {
+    const payload = await apiGet<unknown>(`/api/escalations${dealerQuery(dealerId)}`, options);
+    return normalizeEscalationQueue(payload);
+  },
+  assignEnrollment(id: string, payload: AssignPayload, options?: RequestOptions) {
+    return auditedMutate(() => enrollmentResponse(apiPost<unknown, AssignPayload>(`/api/enrollments/${id}/assign`, payload, options)), {
+      optimistic: [
+        ...patchEnrollment(id, (enrollment) => ({ ...enrollment, assignedTo: payload.assignedTo ?? undefined })),
+        queryUpdate<EscalationQueueItem[]>(queryKeys.escalationQueues, (items) =>
+          items.map((item) => (item.enrollment.id === id ? { ...item, enrollment: { ...item.enrollment, assignedTo: payload.assignedTo ?? undefined } } : item)),
+        ),
+      ],
+      apply: (enrollment) => patchEnrollment(id, () => enrollment),
+      invalidates: [queryKeys.escalationQueues],
+    });
+  },
+  resolveEscalation(id: string, payload: ResolveEscalationPayload) {
+    return auditedMutate(() => enrollmentResponse(apiPost<unknown, ResolveEscalationPayload>(`/api/enrollments/${id}/resolve-escalation`, payload)), {
+      optimistic: [queryUpdate<EscalationQueueItem[]>(queryKeys.escalationQueues, (items) => items.filter((item) => item.enrollment.id !== id))],
+      apply: (enrollment) => patchEnrollment(id, () => enrollment),
+      invalidates: enrollmentChanged(id),
+    });
+  },
+  async listDealers(options?: RequestOptions) {
+    const payload = await apiGet<unknown>("/api/dealers", options);
+    return normalizeDealerList(payload);
+  },
+  async listDoNotContact(options?: RequestOptions) {
+    const payload = await apiGet<unknown>("/api/do-not-contact", options);
+    return normalizeDoNotContactList(payload);
+  },
+  // Newest first.
+  async listAudit(query: AuditQuery = {}, options?: RequestOptions) {
+    const payload = await apiGet<unknown>(`/api/audit?${auditQuery(query)}`, options);
+    return normalizeAuditPage(payload);
+  },
+  async listAllAudit(query: Omit<AuditQuery, "cursor" | "limit"> = {}, options?: RequestOptions) {
+    const all: AuditEntry[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await sequenceApi.listAudit({ ...query, cursor, limit: EXPORT_PAGE_SIZE }, options);
+      all.push(...page.entries);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return all;
+  },
+  addNote(id: string, payload: AddAgentNotePayload, options?: RequestOptions) {
+    return auditedMutate(
+      async () => {
+        const event = await apiPost<unknown, AddAgentNotePayload>(`/api/enrollments/${id}/notes`, payload, idempotent(options));
+        if (!isRecord(event) || event.type !== "AGENT_NOTE") throw new ApiError("Expected an agent note from API", 200, event);
+        return expectValid<AgentNoteEvent>(event, validateTimelineEvent, "agent note");
+      },
+      {
+        apply: (note) => [queryUpdate<TimelineResponse>(queryKeys.timeline(id), (timeline) => ({ ...timeline, events: [...timeline.events, note] }))],
+        invalidates: [queryKeys.timeline(id), queryKeys.timelineLists],
+      },
+    );
+  },
+  addDoNotContact(payload: AddDoNotContactPayload) {
+    return auditedMutate(
+      async () => expectValid<DoNotContactEntry>(await apiPost<unknown, AddDoNotContactPayload>("/api/do-not-contact", payload), validateDoNotContactEntry, "do-not-contact entry"),
+      { invalidates: [queryKeys.doNotContact] },
+    );
+  },
+  removeDoNotContact(id: string) {
+    return auditedMutate(
+      async () => expectValid<DoNotContactEntry>(await apiPost<unknown>(`/api/do-not-contact/${id}/remove`), validateDoNotContactEntry, "do-not-contact entry"),
+      {
+        optimistic: [queryUpdate<DoNotContactEntry[]>(queryKeys.doNotContact, (entries) => entries.filter((entry) => entry.id !== id))],
+        invalidates: [queryKeys.doNotContact],
+      },
+    );
+  },
+  async listCadences(options?: RequestOptions) {
+    const payload = await apiGet<unknown>("/api/cadences", options);
+    return normalizeCadenceList(payload);
+  },
+  async listCadenceVersions(id: string, options?: RequestOptions) {
+    const payload = await apiGet<unknown>(`/api/cadences/${id}/versions`, options);
+    return normalizeCadenceList(payload);
+  },
+  async getCadence(id: string, version?: number | null, options?: RequestOptions) {
+    const query = version == null ? "" : `?${new URLSearchParams({ version: String(version) }).toString()}`;
+    return expectValid<Cadence>(await apiGet<unknown>(`/api/cadences/${id}${query}`, options), validateCadence, "cadence");
+  },
+  createCadence(payload: SaveCadencePayload) {
+    return auditedMutate(async () => expectValid<Cadence>(await apiPost<unknown, SaveCadencePayload>("/api/cadences", payload), validateCadence, "cadence"), {
+      invalidates: [queryKeys.cadenceLists],
+    });
+  },
+  publishCadenceVersion(id: string, payload: SaveCadencePayload) {
+    return auditedMutate(async () => expectValid<Cadence>(await apiPost<unknown, SaveCadencePayload>(`/api/cadences/${id}/versions`, payload), validateCadence, "cadence"), {
+      invalidates: [queryKeys.cadenceLists, queryKeys.cadenceVersions(id)],
+    });
   },
-  escalateEnrollment(id: string, payload: ReasonPayload) {
-    return apiPost<Enrollment, ReasonPayload>(`/api/enrollments/${id}/escalate`, payload);
+  // Publishing adds a version without touching existing ones; reassigning dealers rewrites the cadence itself.
+  assignCadence(id: string, payload: AssignCadencePayload) {
+    return auditedMutate(async () => expectValid<Cadence>(await apiPost<unknown, AssignCadencePayload>(`/api/cadences/${id}/dealers`, payload), validateCadence, "cadence"), {
+      invalidates: [queryKeys.cadenceLists, queryKeys.cadenceVersions(id)],
+    });
   },
 };
@@ -0,0 +1,86 @@
+import { useSyncExternalStore } from "react";
+import type { Role, Session } from "../types/sequence";
+
+// The signed-in session, persisted so a reload stays signed in. api.ts reads the token from here and
+// clears the session when the server stops accepting it; the app shell reacts by showing the login page.
+
+const SESSION_KEY = "carpay-collect:session";
+
+export type Permission =
+  | "enroll"
+  | "suppress"
+  | "escalate"
+  | "resume"
+  | "de-escalate"
+  | "record-payment"
+  | "add-note"
+  | "work-escalations"
+  | "manage-cadences"
+  | "add-do-not-contact"
+  | "remove-do-not-contact";
+
+const AGENT_PERMISSIONS: Permission[] = ["enroll", "suppress", "escalate", "record-payment", "add-note", "work-escalations", "add-do-not-contact"];
+
+// Viewers are read-only; reversing an exit, changing cadences and taking someone off the do-not-contact
+// list are supervisor calls.
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  agent: AGENT_PERMISSIONS,
+  supervisor: [...AGENT_PERMISSIONS, "resume", "de-escalate", "manage-cadences", "remove-do-not-contact"],
+};
+
+const listeners = new Set<() => void>();
+
+function readStored(): Session | null {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    return raw ? (JSON.parse(raw) as Session) : null;
+  } catch {
+    return null;
+  }
+}
+
+let session = readStored();
+
+export function getSession() {
+  return session;
+}
+
+export function setSession(next: Session | null) {
+  session = next;
+  try {
+    if (next) localStorage.setItem(SESSION_KEY, JSON.stringify(next));
+    else localStorage.removeItem(SESSION_KEY);
+  } catch {
+    // storage unavailable; the session lasts until reload
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeSession(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useSession() {
+  return useSyncExternalStore(subscribeSession, getSession);
+}
+
+export function hasPermission(role: Role | null | undefined, permission: Permission) {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function useCan(permission: Permission) {
+  return hasPermission(useSession()?.user.role, permission);
+}
+
+export function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
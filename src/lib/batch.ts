@@ -0,0 +1,32 @@
+export type BatchResult<TItem, TValue> =
+  | { item: TItem; ok: true; value: TValue }
+  | { item: TItem; ok: false; error: string };
+
+// Runs `worker` over `items` with at most `limit` in flight; results keep the input order.
+export async function runWithConcurrency<TItem, TValue>(
+  items: TItem[],
+  limit: number,
+  worker: (item: TItem) => Promise<TValue>,
+  onProgress?: (done: number, total: number) => void,
+): Promise<Array<BatchResult<TItem, TValue>>> {
+  const results = new Array<BatchResult<TItem, TValue>>(items.length);
+  let next = 0;
+  let done = 0;
+
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const item = items[index];
+      try {
+        results[index] = { item, ok: true, value: await worker(item) };
+      } catch (err) {
+        results[index] = { item, ok: false, error: err instanceof Error ? err.message : String(err) };
+      }
+      done += 1;
+      onProgress?.(done, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+  return results;
+}
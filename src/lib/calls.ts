@@ -0,0 +1,37 @@
+import type { CallCompletedEvent, TranscriptTurn } from "../types/sequence";
+
+// Prefers the dialer's talk time; falls back to the wall-clock span for events recorded before it was sent.
+export function callDurationSec(event: CallCompletedEvent) {
+  if (event.durationSec != null) return event.durationSec;
+  return Math.max(0, Math.round((+new Date(event.endedAt) - +new Date(event.startedAt)) / 1000));
+}
+
+export function formatDuration(totalSec: number) {
+  const minutes = Math.floor(totalSec / 60);
+  const seconds = Math.floor(totalSec % 60);
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
+// Case-insensitive; returns the indexes of turns containing the query.
+export function searchTranscript(turns: TranscriptTurn[], query: string) {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  return turns.flatMap((turn, index) => (turn.text.toLowerCase().includes(needle) ? [index] : []));
+}
+
+// Splits text around case-insensitive occurrences of the query so the matches can be highlighted.
+export function highlightSegments(text: string, query: string) {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [{ text, match: false }];
+
+  const segments: Array<{ text: string; match: boolean }> = [];
+  const haystack = text.toLowerCase();
+  let from = 0;
+  for (let at = haystack.indexOf(needle); at >= 0; at = haystack.indexOf(needle, from)) {
+    if (at > from) segments.push({ text: text.slice(from, at), match: false });
+    segments.push({ text: text.slice(at, at + needle.length), match: true });
+    from = at + needle.length;
+  }
+  if (from < text.length) segments.push({ text: text.slice(from), match: false });
+  return segments;
+}
@@ -0,0 +1,265 @@
+import type { CallCompletedEvent, DoNotContactEntry, Enrollment, EnrollmentTimeline, TimelineEvent, TouchChannel, TouchSentEvent } from "../types/sequence";
+import { inDateRange } from "./reports";
+import type { ReportFilters } from "./reports";
+
+// Contact-compliance checks for collection touches: a touch has to land inside the allowed hours in the
+// borrower's own timezone, stay under the state's weekly call limit, and never go to anyone on the
+// do-not-contact list. These checks flag problems after the fact and ahead of the schedule; they don't
+// stop the sequence themselves.
+//
+// Not covered: SMS, email and push have no frequency cap here (Regulation F caps calls only), and no state
+// window stricter than the federal 8am–9pm is modeled, nor Sunday or holiday restrictions.
+
+export interface ContactRule {
+  // Touches may go out from earliestHour up to (not including) latestHour, borrower-local.
+  earliestHour: number;
+  latestHour: number;
+  // Rolling seven-day cap on calls.
+  maxCallsPerWeek: number;
+}
+
+export type ComplianceRule = "quiet_hours" | "call_frequency" | "do_not_contact" | "unknown_timezone";
+
+export interface BorrowerLocale {
+  state: string;
+  timeZone: string;
+  // Where the state came from; the mailing address wins over the phone's area code, which moves with the borrower.
+  source: "address" | "phone";
+  rule: ContactRule;
+}
+
+export interface ComplianceViolation {
+  enrollment: Enrollment;
+  rule: ComplianceRule;
+  // A touch already sent, or the next one on the schedule.
+  source: "sent" | "scheduled";
+  at: string;
+  channel: TouchChannel | null;
+  message: string;
+}
+
+export interface ComplianceReport {
+  violations: ComplianceViolation[];
+  byRule: Array<{ key: ComplianceRule; count: number }>;
+  enrollmentsAffected: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// FDCPA's 8am–9pm window and Regulation F's seven calls in seven days.
+export const DEFAULT_CONTACT_RULE: ContactRule = { earliestHour: 8, latestHour: 21, maxCallsPerWeek: 7 };
+
+// Only states whose call caps are stricter than the federal baseline are listed.
+const STATE_CONTACT_RULES: Record<string, Partial<ContactRule>> = {
+  MA: { maxCallsPerWeek: 2 },
+  WA: { maxCallsPerWeek: 3 },
+};
+
+// One zone per state. Split states (FL, TX, KY, TN and a few others) use the zone most of the state is in.
+const STATE_TIME_ZONES: Record<string, string> = {
+  AL: "America/Chicago",
+  AK: "America/Anchorage",
+  AZ: "America/Phoenix",
+  AR: "America/Chicago",
+  CA: "America/Los_Angeles",
+  CO: "America/Denver",
+  CT: "America/New_York",
+  DC: "America/New_York",
+  DE: "America/New_York",
+  FL: "America/New_York",
+  GA: "America/New_York",
+  HI: "Pacific/Honolulu",
+  IA: "America/Chicago",
+  ID: "America/Boise",
+  IL: "America/Chicago",
+  IN: "America/Indiana/Indianapolis",
+  KS: "America/Chicago",
+  KY: "America/New_York",
+  LA: "America/Chicago",
+  MA: "America/New_York",
+  MD: "America/New_York",
+  ME: "America/New_York",
+  MI: "America/Detroit",
+  MN: "America/Chicago",
+  MO: "America/Chicago",
+  MS: "America/Chicago",
+  MT: "America/Denver",
+  NC: "America/New_York",
+  ND: "America/Chicago",
+  NE: "America/Chicago",
+  NH: "America/New_York",
+  NJ: "America/New_York",
+  NM: "America/Denver",
+  NV: "America/Los_Angeles",
+  NY: "America/New_York",
+  OH: "America/New_York",
+  OK: "America/Chicago",
+  OR: "America/Los_Angeles",
+  PA: "America/New_York",
+  RI: "America/New_York",
+  SC: "America/New_York",
+  SD: "America/Chicago",
+  TN: "America/Chicago",
+  TX: "America/Chicago",
+  UT: "America/Denver",
+  VA: "America/New_York",
+  VT: "America/New_York",
+  WA: "America/Los_Angeles",
+  WI: "America/Chicago",
+  WV: "America/New_York",
+  WY: "America/Denver",
+};
+
+// The larger area codes per state, not an exhaustive plan. A number we can't place is flagged as
+// `unknown_timezone` rather than guessed.
+const AREA_CODE_STATES: Record<string, string> = {
+  "201": "NJ", "202": "DC", "203": "CT", "205": "AL", "206": "WA", "207": "ME", "208": "ID", "210": "TX",
+  "212": "NY", "213": "CA", "214": "TX", "215": "PA", "216": "OH", "302": "DE", "303": "CO", "304": "WV",
+  "305": "FL", "307": "WY", "310": "CA", "312": "IL", "313": "MI", "314": "MO", "316": "KS", "317": "IN",
+  "401": "RI", "402": "NE", "404": "GA", "405": "OK", "406": "MT", "407": "FL", "410": "MD", "412": "PA",
+  "414": "WI", "415": "CA", "480": "AZ", "501": "AR", "502": "KY", "503": "OR", "504": "LA", "505": "NM",
+  "508": "MA", "509": "WA", "512": "TX", "515": "IA", "601": "MS", "602": "AZ", "603": "NH", "605": "SD",
+  "612": "MN", "614": "OH", "615": "TN", "617": "MA", "619": "CA", "678": "GA", "701": "ND", "702": "NV",
+  "703": "VA", "704": "NC", "713": "TX", "714": "CA", "718": "NY", "720": "CO", "773": "IL", "801": "UT",
+  "802": "VT", "803": "SC", "804": "VA", "808": "HI", "813": "FL", "816": "MO", "818": "CA", "901": "TN",
+  "907": "AK", "917": "NY", "919": "NC", "973": "NJ",
+};
+
+export const US_STATES = Object.keys(STATE_TIME_ZONES);
+
+export function contactRule(state: string): ContactRule {
+  return { ...DEFAULT_CONTACT_RULE, ...STATE_CONTACT_RULES[state] };
+}
+
+// Ten-digit national number, dropping a leading US country code.
+function nationalNumber(phone: string) {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length === 11 && digits.startsWith("1") ? digits.slice(1) : digits;
+}
+
+export function borrowerLocale(enrollment: Pick<Enrollment, "addressState" | "phone">): BorrowerLocale | null {
+  const addressState = enrollment.addressState?.trim().toUpperCase();
+  if (addressState && STATE_TIME_ZONES[addressState]) {
+    return { state: addressState, timeZone: STATE_TIME_ZONES[addressState], source: "address", rule: contactRule(addressState) };
+  }
+  const phone = enrollment.phone ? nationalNumber(enrollment.phone) : "";
+  const phoneState = phone.length === 10 ? AREA_CODE_STATES[phone.slice(0, 3)] : undefined;
+  if (phoneState) return { state: phoneState, timeZone: STATE_TIME_ZONES[phoneState], source: "phone", rule: contactRule(phoneState) };
+  return null;
+}
+
+// Hour of day in `timeZone`, with minutes as the fraction.
+export function localHour(at: string | Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, hour: "numeric", minute: "numeric", hourCycle: "h23" }).formatToParts(new Date(at));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return part("hour") + part("minute") / 60;
+}
+
+export function formatLocalTime(at: string | Date, timeZone: string) {
+  return new Date(at).toLocaleString(undefined, { timeZone, month: "short", day: "numeric", hour: "numeric", minute: "2-digit", timeZoneName: "short" });
+}
+
+function formatHour(hour: number) {
+  return new Date(2000, 0, 1, hour).toLocaleTimeString(undefined, { hour: "numeric" });
+}
+
+export function describeRule(rule: ContactRule) {
+  return `${formatHour(rule.earliestHour)}–${formatHour(rule.latestHour)} local · at most ${rule.maxCallsPerWeek} calls per 7 days`;
+}
+
+export function findDoNotContact(entries: DoNotContactEntry[], borrower: { borrowerId?: string | null; phone?: string | null; email?: string | null }) {
+  const borrowerId = borrower.borrowerId?.trim();
+  const phone = borrower.phone ? nationalNumber(borrower.phone) : "";
+  const email = borrower.email?.trim().toLowerCase();
+  return (
+    entries.find(
+      (entry) =>
+        (!!borrowerId && entry.borrowerId === borrowerId) ||
+        (!!phone && !!entry.phone && nationalNumber(entry.phone) === phone) ||
+        (!!email && entry.email?.toLowerCase() === email),
+    ) ?? null
+  );
+}
+
+function insideHours(at: string, locale: BorrowerLocale) {
+  const hour = localHour(at, locale.timeZone);
+  return hour >= locale.rule.earliestHour && hour < locale.rule.latestHour;
+}
+
+// When each call was placed. A dialed call is a call touch and, once it ends, a CALL_COMPLETED for the same
+// day; each call counts once, including completed calls no touch announced. Day numbers repeat when the
+// cadence restarts, so a completion only answers a touch placed within a day of it.
+function callTimes(touches: TouchSentEvent[], events: TimelineEvent[]) {
+  const completed = events.filter((event): event is CallCompletedEvent => event.type === "CALL_COMPLETED");
+  const answered = (touch: TouchSentEvent) =>
+    completed.some((call) => call.day === touch.day && Math.abs(+new Date(call.startedAt) - +new Date(touch.sentAt)) < DAY_MS);
+  const dialed = touches.filter((touch) => touch.channel === "call" && !answered(touch)).map((touch) => touch.sentAt);
+  return [...completed.map((call) => call.startedAt), ...dialed].sort((a, b) => +new Date(a) - +new Date(b));
+}
+
+// Calls placed in the seven days up to and including `at`.
+function callsInWeek(calls: string[], at: string) {
+  const end = +new Date(at);
+  return calls.filter((call) => +new Date(call) <= end && +new Date(call) > end - WEEK_MS).length;
+}
+
+export function checkCompliance(enrollment: Enrollment, events: TimelineEvent[], doNotContact: DoNotContactEntry[]): ComplianceViolation[] {
+  const locale = borrowerLocale(enrollment);
+  const blocked = findDoNotContact(doNotContact, enrollment);
+  const touches = events
+    .filter((event): event is TouchSentEvent => event.type === "TOUCH_SENT")
+    .sort((a, b) => +new Date(a.sentAt) - +new Date(b.sentAt));
+  const calls = callTimes(touches, events);
+  const violations: ComplianceViolation[] = [];
+  const flag = (rule: ComplianceRule, source: ComplianceViolation["source"], at: string, channel: TouchChannel | null, message: string) =>
+    violations.push({ enrollment, rule, source, at, channel, message });
+
+  touches.forEach((touch) => {
+    if (blocked && +new Date(touch.sentAt) >= +new Date(blocked.addedAt)) {
+      flag("do_not_contact", "sent", touch.sentAt, touch.channel, `Sent after the borrower was put on the do-not-contact list (${blocked.reason})`);
+    }
+    if (!locale) return;
+    if (!insideHours(touch.sentAt, locale)) {
+      flag("quiet_hours", "sent", touch.sentAt, touch.channel, `Sent at ${formatLocalTime(touch.sentAt, locale.timeZone)}, outside ${locale.state} contact hours`);
+    }
+  });
+
+  calls.forEach((at) => {
+    if (locale && callsInWeek(calls, at) > locale.rule.maxCallsPerWeek) {
+      flag("call_frequency", "sent", at, "call", `More than ${locale.rule.maxCallsPerWeek} calls in 7 days (${locale.state})`);
+    }
+  });
+
+  // The next touch's channel depends on the cadence, so the call cap isn't checked ahead of time.
+  if (enrollment.status === "ACTIVE") {
+    const next = enrollment.nextScheduledAt;
+    if (blocked) flag("do_not_contact", "scheduled", next, null, `Next touch is scheduled but the borrower is on the do-not-contact list (${blocked.reason})`);
+    if (!locale) {
+      flag("unknown_timezone", "scheduled", next, null, "Can't tell the borrower's timezone from the phone number or address");
+    } else if (!insideHours(next, locale)) {
+      flag("quiet_hours", "scheduled", next, null, `Scheduled for ${formatLocalTime(next, locale.timeZone)}, outside ${locale.state} contact hours`);
+    }
+  }
+
+  return violations.sort((a, b) => +new Date(a.at) - +new Date(b.at));
+}
+
+// Sent touches are limited to the report's date range; scheduled ones are upcoming and always included.
+export function buildComplianceReport(timelines: EnrollmentTimeline[], doNotContact: DoNotContactEntry[], filters: ReportFilters): ComplianceReport {
+  const violations = timelines
+    .filter((t) => !filters.dealerId || t.enrollment.dealerId === filters.dealerId)
+    .flatMap((t) => checkCompliance(t.enrollment, t.events, doNotContact))
+    .filter((violation) => violation.source === "scheduled" || inDateRange(violation.at, filters));
+
+  const counts = new Map<ComplianceRule, number>();
+  violations.forEach((violation) => counts.set(violation.rule, (counts.get(violation.rule) ?? 0) + 1));
+
+  return {
+    violations,
+    byRule: Array.from(counts.entries())
+      .map(([key, count]) => ({ key, count }))
+      .sort((a, b) => b.count - a.count),
+    enrollmentsAffected: new Set(violations.map((violation) => violation.enrollment.id)).size,
+  };
+}
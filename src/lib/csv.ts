@@ -0,0 +1,74 @@
+// RFC 4180-style CSV helpers: quoted fields, escaped quotes ("") and CRLF or LF line endings.
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines, including the one left by a trailing newline.
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+// Spreadsheets run a cell starting with one of these as a formula; exported text is user-supplied.
+// Numbers and phone numbers (`+14155550100`, `-12.50`) start the same way but are data, and stay as they are.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMERIC_OR_PHONE = /^[+-]?[\d\s().-]+$/;
+
+function neutralizeFormula(text: string) {
+  return FORMULA_PREFIX.test(text) && !NUMERIC_OR_PHONE.test(text) ? `'${text}` : text;
+}
+
+function escapeField(value: unknown) {
+  if (value == null) return "";
+  const text = typeof value === "string" ? neutralizeFormula(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T extends Record<string, unknown>>(rows: T[], columns: Array<keyof T & string>) {
+  const lines = [columns.join(",")];
+  rows.forEach((row) => lines.push(columns.map((column) => escapeField(row[column])).join(",")));
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight after click() can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
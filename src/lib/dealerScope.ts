@@ -0,0 +1,45 @@
+import { useSyncExternalStore } from "react";
+
+// The dealer the workspace is scoped to, or null for "all dealers". Kept outside React so the API hooks
+// and the header picker share one value, and persisted so a reload stays on the same dealer.
+
+const DEALER_KEY = "carpay-collect:dealer";
+
+const listeners = new Set<() => void>();
+
+function readStored() {
+  try {
+    return localStorage.getItem(DEALER_KEY) || null;
+  } catch {
+    return null;
+  }
+}
+
+let currentDealer = readStored();
+
+export function getCurrentDealer() {
+  return currentDealer;
+}
+
+export function setCurrentDealer(dealerId: string | null) {
+  if (dealerId === currentDealer) return;
+  currentDealer = dealerId;
+  try {
+    if (dealerId) localStorage.setItem(DEALER_KEY, dealerId);
+    else localStorage.removeItem(DEALER_KEY);
+  } catch {
+    // storage unavailable; the choice lasts for this session only
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useCurrentDealer() {
+  return useSyncExternalStore(subscribe, getCurrentDealer);
+}
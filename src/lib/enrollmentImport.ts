@@ -0,0 +1,90 @@
+import type { CreateEnrollmentPayload } from "../types/sequence";
+import { amountDueError, isValidEmail, parseAmount, toE164 } from "./intake";
+
+export const IMPORT_FIELDS = ["borrowerId", "dealerId", "phone", "email", "vehicle", "amountDue"] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Column index in the uploaded file for each payload field, or null when unmapped.
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ["borrowerId", "dealerId", "phone"];
+
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  borrowerId: ["borrowerid", "borrower", "borrower_id", "accountid", "account"],
+  dealerId: ["dealerid", "dealer", "dealer_id"],
+  phone: ["phone", "phonenumber", "mobile", "cell"],
+  email: ["email", "emailaddress"],
+  vehicle: ["vehicle", "car", "vehicledescription"],
+  amountDue: ["amountdue", "amount", "amount_due", "balance", "pastdue"],
+};
+
+export interface ImportRow {
+  rowNumber: number;
+  borrowerId: string;
+  dealerId: string;
+  payload: CreateEnrollmentPayload | null;
+  errors: string[];
+}
+
+function normalizeHeader(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9_]/g, "");
+}
+
+export function guessMapping(header: string[]): ColumnMapping {
+  const normalized = header.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach((field) => {
+    const index = normalized.findIndex((h) => FIELD_ALIASES[field].includes(h) || FIELD_ALIASES[field].includes(h.replace(/_/g, "")));
+    mapping[field] = index >= 0 ? index : null;
+  });
+  return mapping;
+}
+
+export function missingRequiredFields(mapping: ColumnMapping) {
+  return REQUIRED_IMPORT_FIELDS.filter((field) => mapping[field] == null);
+}
+
+// `rows` excludes the header; row numbers match the line numbers a spreadsheet shows.
+export function validateImportRows(rows: string[][], mapping: ColumnMapping): ImportRow[] {
+  const seenBorrowers = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const read = (field: ImportField) => {
+      const column = mapping[field];
+      return column == null ? "" : (cells[column] ?? "").trim();
+    };
+
+    REQUIRED_IMPORT_FIELDS.forEach((field) => {
+      if (!read(field)) errors.push(`${field} is required`);
+    });
+
+    const phone = read("phone") ? toE164(read("phone")) : null;
+    if (read("phone") && !phone) errors.push("phone is not a valid phone number");
+
+    const email = read("email");
+    if (email && !isValidEmail(email)) errors.push("email is not valid");
+
+    const amountDue = parseAmount(read("amountDue"));
+    const amountError = amountDue === undefined ? null : amountDueError(amountDue);
+    if (amountError) errors.push(amountError);
+
+    const key = `${read("dealerId")}::${read("borrowerId")}`;
+    if (read("borrowerId")) {
+      const firstRow = seenBorrowers.get(key);
+      if (firstRow != null) errors.push(`duplicate of row ${firstRow}`);
+      else seenBorrowers.set(key, rowNumber);
+    }
+
+    const ids = { rowNumber, borrowerId: read("borrowerId"), dealerId: read("dealerId") };
+    if (errors.length || !phone) return { ...ids, payload: null, errors };
+
+    const payload: CreateEnrollmentPayload = { borrowerId: read("borrowerId"), dealerId: read("dealerId"), phone };
+    if (email) payload.email = email;
+    if (read("vehicle")) payload.vehicle = read("vehicle");
+    if (amountDue !== undefined) payload.amountDue = amountDue;
+    return { ...ids, payload, errors };
+  });
+}
@@ -0,0 +1,190 @@
+import type { AuditEntry, Enrollment, TimelineEvent } from "../types/sequence";
+import type { ComplianceViolation } from "./compliance";
+import { callDurationSec } from "./calls";
+import { downloadFile, toCsv } from "./csv";
+import { eventDay, eventTimestamp } from "./timeline";
+
+export type ExportFormat = "csv" | "json";
+
+type ExportValue = string | number | null;
+
+export const ENROLLMENT_EXPORT_COLUMNS = [
+  "id",
+  "borrowerId",
+  "dealerId",
+  "status",
+  "currentDay",
+  "nextScheduledAt",
+  "amountDue",
+  "amountPaid",
+  "suppressedReason",
+  "escalationReason",
+  "paymentPostedAt",
+  "phone",
+  "email",
+  "vehicle",
+  "addressState",
+  "cadenceId",
+  "cadenceVersion",
+  "assignedTo",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+export type EnrollmentExportRow = Record<(typeof ENROLLMENT_EXPORT_COLUMNS)[number], ExportValue>;
+
+export const TIMELINE_EXPORT_COLUMNS = [
+  "enrollmentId",
+  "type",
+  "timestamp",
+  "day",
+  "channel",
+  "templateId",
+  "startedAt",
+  "endedAt",
+  "callOutcome",
+  "transferReason",
+  "intentDate",
+  "durationSec",
+  "identityVerification",
+  "recordingId",
+  "amount",
+  "method",
+  "reference",
+  "remainingBalance",
+  "reason",
+  "resolution",
+  "resolvedBy",
+  "notes",
+  "author",
+  "activityKind",
+  "followUpDate",
+  "actorType",
+  "actor",
+  "source",
+] as const;
+
+export type TimelineExportRow = Record<(typeof TIMELINE_EXPORT_COLUMNS)[number], ExportValue>;
+
+export const COMPLIANCE_EXPORT_COLUMNS = ["enrollmentId", "borrowerId", "dealerId", "rule", "source", "channel", "at", "message"] as const;
+
+export type ComplianceExportRow = Record<(typeof COMPLIANCE_EXPORT_COLUMNS)[number], ExportValue>;
+
+export const AUDIT_EXPORT_COLUMNS = [
+  "id",
+  "at",
+  "actorType",
+  "actorId",
+  "actorName",
+  "actorRole",
+  "source",
+  "action",
+  "targetId",
+  "enrollmentId",
+  "borrowerId",
+  "dealerId",
+  "detail",
+] as const;
+
+export type AuditExportRow = Record<(typeof AUDIT_EXPORT_COLUMNS)[number], ExportValue>;
+
+export function enrollmentExportRow(enrollment: Enrollment): EnrollmentExportRow {
+  const row = {} as EnrollmentExportRow;
+  ENROLLMENT_EXPORT_COLUMNS.forEach((column) => {
+    row[column] = enrollment[column] ?? null;
+  });
+  return row;
+}
+
+// Every variant maps onto the same columns; fields a variant doesn't carry are left null.
+export function timelineExportRow(enrollmentId: string, event: TimelineEvent): TimelineExportRow {
+  const row = Object.fromEntries(TIMELINE_EXPORT_COLUMNS.map((column) => [column, null])) as TimelineExportRow;
+  row.enrollmentId = enrollmentId;
+  row.type = event.type;
+  row.timestamp = eventTimestamp(event);
+  row.day = eventDay(event);
+  row.actorType = event.actor?.type ?? null;
+  row.actor = event.actor?.name ?? null;
+  row.source = event.source ?? null;
+
+  switch (event.type) {
+    case "TOUCH_SENT":
+      row.channel = event.channel;
+      row.templateId = event.templateId ?? null;
+      break;
+    case "CALL_COMPLETED":
+      row.startedAt = event.startedAt;
+      row.endedAt = event.endedAt;
+      row.callOutcome = event.callOutcome;
+      row.transferReason = event.transferReason ?? null;
+      row.intentDate = event.intentDate ?? null;
+      row.notes = event.notes ?? null;
+      row.durationSec = callDurationSec(event);
+      row.identityVerification = event.identityVerification ?? null;
+      row.recordingId = event.recording?.id ?? null;
+      break;
+    case "PAYMENT_POSTED":
+      row.amount = event.amount;
+      row.method = event.method ?? null;
+      row.reference = event.reference ?? null;
+      row.remainingBalance = event.remainingBalance ?? null;
+      break;
+    case "ESCALATED":
+    case "SUPPRESSED":
+    case "RESUMED":
+    case "DE_ESCALATED":
+      row.reason = event.reason;
+      break;
+    case "ESCALATION_RESOLVED":
+      row.reason = event.reason;
+      row.resolution = event.resolution;
+      row.resolvedBy = event.resolvedBy;
+      break;
+    case "AGENT_NOTE":
+      row.author = event.author;
+      row.activityKind = event.kind;
+      row.notes = event.body;
+      row.followUpDate = event.followUpDate ?? null;
+      break;
+  }
+  return row;
+}
+
+export function complianceExportRow(violation: ComplianceViolation): ComplianceExportRow {
+  return {
+    enrollmentId: violation.enrollment.id,
+    borrowerId: violation.enrollment.borrowerId,
+    dealerId: violation.enrollment.dealerId,
+    rule: violation.rule,
+    source: violation.source,
+    channel: violation.channel,
+    at: violation.at,
+    message: violation.message,
+  };
+}
+
+export function auditExportRow(entry: AuditEntry): AuditExportRow {
+  return {
+    id: entry.id,
+    at: entry.at,
+    actorType: entry.actor.type,
+    actorId: entry.actor.id,
+    actorName: entry.actor.name,
+    actorRole: entry.actor.role ?? null,
+    source: entry.source ?? null,
+    action: entry.action,
+    targetId: entry.targetId,
+    enrollmentId: entry.enrollmentId ?? null,
+    borrowerId: entry.borrowerId ?? null,
+    dealerId: entry.dealerId ?? null,
+    detail: entry.detail,
+  };
+}
+
+export function exportRows<T extends Record<string, ExportValue>>(format: ExportFormat, basename: string, rows: T[], columns: ReadonlyArray<keyof T & string>) {
+  if (format === "csv") {
+    downloadFile(`${basename}.csv`, toCsv(rows, [...columns]), "text/csv");
+  } else {
+    downloadFile(`${basename}.json`, JSON.stringify(rows, null, 2), "application/json");
+  }
+}
@@ -0,0 +1,39 @@
+import type { AgentNoteEvent, Enrollment, EnrollmentTimeline, TimelineEvent } from "../types/sequence";
+import { isOpenEnrollment } from "./intake";
+import { sortByTimestamp } from "./timeline";
+
+// Follow-ups agents set on their notes. One stays open until someone logs a later note or contact on the
+// same enrollment, or the enrollment leaves the sequence.
+
+export type FollowUpStatus = "overdue" | "due" | "upcoming";
+
+export interface FollowUp {
+  enrollment: Enrollment;
+  note: AgentNoteEvent;
+  dueDate: string;
+  status: FollowUpStatus;
+}
+
+// Local calendar date (YYYY-MM-DD), matching how agents pick the follow-up date.
+export function localDate(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function openFollowUp(events: TimelineEvent[]) {
+  const notes = sortByTimestamp(events).filter((event): event is AgentNoteEvent => event.type === "AGENT_NOTE");
+  const last = notes[notes.length - 1];
+  return last?.followUpDate ? last : null;
+}
+
+export function buildFollowUps(timelines: EnrollmentTimeline[], now: Date): FollowUp[] {
+  const today = localDate(now);
+  return timelines
+    .flatMap(({ enrollment, events }) => {
+      const note = isOpenEnrollment(enrollment.status) ? openFollowUp(events) : null;
+      if (!note) return [];
+      const dueDate = note.followUpDate!.slice(0, 10);
+      const status: FollowUpStatus = dueDate < today ? "overdue" : dueDate === today ? "due" : "upcoming";
+      return [{ enrollment, note, dueDate, status }];
+    })
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.enrollment.id.localeCompare(b.enrollment.id));
+}
@@ -0,0 +1,105 @@
+import type { CreateEnrollmentPayload, DuplicateField, DuplicateMatch, Enrollment, EnrollmentStatus } from "../types/sequence";
+
+// Field rules for new enrollments, shared by the enroll form, the CSV import and the mock server so all
+// three accept and reject the same input.
+
+export interface IntakeForm {
+  borrowerId: string;
+  dealerId: string;
+  phone: string;
+  email: string;
+  vehicle: string;
+  amountDue: string;
+  addressState: string;
+  cadenceId: string;
+}
+
+export type IntakeErrors = Partial<Record<keyof IntakeForm, string>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// E.164 allows up to 15 digits after the country code prefix.
+const MAX_E164_DIGITS = 15;
+
+export function emptyIntakeForm(dealerId = ""): IntakeForm {
+  return { borrowerId: "", dealerId, phone: "", email: "", vehicle: "", amountDue: "", addressState: "", cadenceId: "" };
+}
+
+// Normalizes to E.164. Numbers without a `+` are read as US numbers (10 digits, or 11 with a leading 1);
+// returns null when the input can't be a dialable number.
+export function toE164(value: string) {
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/\D/g, "");
+  if (trimmed.startsWith("+")) {
+    if (digits.startsWith("1")) return digits.length === 11 ? `+${digits}` : null;
+    return digits.length >= 8 && digits.length <= MAX_E164_DIGITS ? `+${digits}` : null;
+  }
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith("1")) return `+${digits}`;
+  return null;
+}
+
+export function isValidEmail(value: string) {
+  return EMAIL_PATTERN.test(value.trim());
+}
+
+// Accepts "$1,234.50"-style input. undefined for blank, NaN for anything that isn't a number.
+export function parseAmount(value: string) {
+  const cleaned = value.replace(/[$,\s]/g, "");
+  if (!cleaned) return undefined;
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) ? amount : NaN;
+}
+
+export function amountDueError(amount: number) {
+  if (Number.isNaN(amount) || amount <= 0) return "amountDue must be a positive amount";
+  // Tolerance because amounts like 0.29 aren't exact in binary (0.29 * 100 is 28.999…).
+  if (Math.abs(Math.round(amount * 100) - amount * 100) > 1e-6) return "amountDue can't have fractions of a cent";
+  return null;
+}
+
+export function validateIntake(form: IntakeForm): { payload: CreateEnrollmentPayload | null; errors: IntakeErrors } {
+  const errors: IntakeErrors = {};
+  const borrowerId = form.borrowerId.trim();
+  const dealerId = form.dealerId.trim();
+  if (!borrowerId) errors.borrowerId = "Borrower ID is required";
+  if (!dealerId) errors.dealerId = "Dealer ID is required";
+
+  const phone = toE164(form.phone);
+  if (!form.phone.trim()) errors.phone = "Phone is required";
+  else if (!phone) errors.phone = "Enter a US number with area code, or an international number starting with +";
+
+  const email = form.email.trim();
+  if (email && !isValidEmail(email)) errors.email = "Email is not valid";
+
+  const amountDue = parseAmount(form.amountDue);
+  const amountError = amountDue === undefined ? null : amountDueError(amountDue);
+  if (amountError) errors.amountDue = amountError;
+
+  if (Object.keys(errors).length || !phone) return { payload: null, errors };
+
+  const payload: CreateEnrollmentPayload = { borrowerId, dealerId, phone };
+  if (email) payload.email = email;
+  if (form.vehicle.trim()) payload.vehicle = form.vehicle.trim();
+  if (amountDue !== undefined) payload.amountDue = amountDue;
+  if (form.addressState) payload.addressState = form.addressState;
+  if (form.cadenceId) payload.cadenceId = form.cadenceId;
+  return { payload, errors };
+}
+
+// Still being worked; a second enrollment alongside one of these would double-contact the borrower.
+export function isOpenEnrollment(status: EnrollmentStatus) {
+  return status === "ACTIVE" || status === "ESCALATED";
+}
+
+// Borrower IDs are only unique within a dealer; a phone number identifies the person across dealers.
+export function findDuplicates(enrollments: Enrollment[], candidate: { borrowerId?: string | null; dealerId?: string | null; phone?: string | null }): DuplicateMatch[] {
+  const borrowerId = candidate.borrowerId?.trim();
+  const phone = candidate.phone ? toE164(candidate.phone) : null;
+  return enrollments.flatMap((enrollment) => {
+    const matchedOn: DuplicateField[] = [];
+    if (borrowerId && enrollment.borrowerId === borrowerId && enrollment.dealerId === candidate.dealerId?.trim()) matchedOn.push("borrowerId");
+    if (phone && enrollment.phone && toE164(enrollment.phone) === phone) matchedOn.push("phone");
+    return matchedOn.length ? [{ enrollment, matchedOn }] : [];
+  });
+}
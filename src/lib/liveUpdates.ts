@@ -0,0 +1,128 @@
+import type { LiveUpdate } from "../types/sequence";
+import { API_BASE_URL, isAbortError, mockBackend, streamApi } from "./api";
+import { validateLiveUpdate } from "./validation";
+
+// One shared server-sent-events connection to `/api/stream`, opened while at least one listener is
+// subscribed. Each message carries an id; after a drop we reconnect with jittered exponential backoff
+// and pass the last id back so the server can replay what we missed. Every connect fetches a fresh stream
+// ticket, so a reconnect after the access token lapsed refreshes the session rather than failing with 401.
+
+export type LiveStatus = "idle" | "connecting" | "open" | "reconnecting";
+
+type Listener = (update: LiveUpdate) => void;
+
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30_000;
+
+const listeners = new Set<Listener>();
+const statusListeners = new Set<() => void>();
+let status: LiveStatus = "idle";
+let lastEventId: string | null = null;
+let attempt = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let disconnect: (() => void) | null = null;
+let pendingTicket: AbortController | null = null;
+
+function setStatus(next: LiveStatus) {
+  if (status === next) return;
+  status = next;
+  statusListeners.forEach((listener) => listener());
+}
+
+function deliver(id: string, data: unknown) {
+  if (id) lastEventId = id;
+  // A malformed message is skipped rather than tearing down the stream; the next refresh will reconcile.
+  if (validateLiveUpdate(data, "$").length) return;
+  listeners.forEach((listener) => listener(data as LiveUpdate));
+}
+
+function connect() {
+  retryTimer = null;
+  setStatus(attempt ? "reconnecting" : "connecting");
+
+  if (mockBackend) {
+    disconnect = mockBackend.subscribeMockStream(lastEventId, (entry) => deliver(entry.id, entry.update));
+    setStatus("open");
+    return;
+  }
+
+  void openWithTicket();
+}
+
+async function openWithTicket() {
+  const controller = new AbortController();
+  pendingTicket = controller;
+  try {
+    const ticket = await streamApi.createTicket({ signal: controller.signal });
+    pendingTicket = null;
+    openStream(ticket);
+  } catch (err) {
+    if (isAbortError(err)) return;
+    pendingTicket = null;
+    scheduleReconnect();
+  }
+}
+
+// The ticket and the resume point go in the query string; the ticket is single-use, so logging the URL
+// leaks nothing reusable.
+function openStream(ticket: string) {
+  const params = new URLSearchParams({ ticket });
+  if (lastEventId) params.set("lastEventId", lastEventId);
+  const source = new EventSource(`${API_BASE_URL}/api/stream?${params}`);
+  source.onopen = () => {
+    attempt = 0;
+    setStatus("open");
+  };
+  source.onmessage = (message: MessageEvent<string>) => {
+    try {
+      deliver(message.lastEventId, JSON.parse(message.data));
+    } catch {
+      // not JSON; ignore
+    }
+  };
+  // The browser's built-in retry uses a fixed delay, and would resend the spent ticket; close and schedule our own.
+  source.onerror = () => {
+    source.close();
+    disconnect = null;
+    scheduleReconnect();
+  };
+  disconnect = () => source.close();
+}
+
+function scheduleReconnect() {
+  attempt += 1;
+  const ceiling = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempt - 1));
+  setStatus("reconnecting");
+  retryTimer = setTimeout(connect, ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function stop() {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  pendingTicket?.abort();
+  pendingTicket = null;
+  disconnect?.();
+  disconnect = null;
+  attempt = 0;
+  setStatus("idle");
+}
+
+export function subscribeLiveUpdates(listener: Listener) {
+  listeners.add(listener);
+  if (listeners.size === 1) connect();
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size) stop();
+  };
+}
+
+export function subscribeLiveStatus(listener: () => void) {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+export function getLiveStatus() {
+  return status;
+}
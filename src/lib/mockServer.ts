@@ -0,0 +1,1278 @@
+import type {
+  Actor,
+  AddAgentNotePayload,
+  AgentActivityKind,
+  AgentNoteEvent,
+  Attribution,
+  AuditAction,
+  AuditEntry,
+  AuthUser,
+  Cadence,
+  CadenceStep,
+  CallCompletedEvent,
+  CallOutcome,
+  CallSpeaker,
+  CreateEnrollmentPayload,
+  Dealer,
+  DoNotContactEntry,
+  Enrollment,
+  EnrollmentSortKey,
+  EnrollmentStatus,
+  EnrollmentSummary,
+  EnrollmentSummarySnapshot,
+  EscalatedEvent,
+  EscalationQueueItem,
+  EscalationResolution,
+  IdentityVerification,
+  LiveUpdate,
+  PaymentMethod,
+  PaymentPostedEvent,
+  SaveCadencePayload,
+  TimelineEvent,
+  TouchChannel,
+  TranscriptTurn,
+  TransferReason,
+} from "../types/sequence";
+import { hasPermission } from "./auth";
+import type { Permission } from "./auth";
+import { findDoNotContact } from "./compliance";
+import { amountDueError, findDuplicates, isOpenEnrollment, isValidEmail, toE164 } from "./intake";
+import { canRecordPayment, paidResolutionError, paymentAmountError, remainingBalance } from "./payments";
+import { eventTimestamp } from "./timeline";
+import { canPerform } from "./transitions";
+
+// In-browser stand-in for the sequence backend. Enabled with VITE_MOCK_API=true;
+// `request()` in api.ts routes every call through `mockFetch` instead of the network.
+
+const STORAGE_KEY = "carpay-collect:mock-api";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LATENCY_MS = 150;
+const DEFAULT_CADENCE_ID = "cad_standard";
+const CHANNELS: TouchChannel[] = ["sms", "email", "push", "call"];
+
+const STANDARD_CHANNELS: TouchChannel[] = ["sms", "email", "call", "sms", "push", "call", "email", "sms", "call", "sms"];
+const STANDARD_STEPS: CadenceStep[] = STANDARD_CHANNELS.map((channel, day) => ({ day, channel, templateId: `day${day}_${channel}` }));
+
+const STATUSES: EnrollmentStatus[] = ["ACTIVE", "PAID_EXIT", "ESCALATED", "SUPPRESSED"];
+
+const CALL_OUTCOME_WEIGHTS: Array<[CallOutcome, number]> = [
+  ["unanswered", 30],
+  ["payment_initiated_sms", 10],
+  ["intent_date_collected", 14],
+  ["follow_up_requested", 10],
+  ["transfer_to_live_agent", 7],
+  ["unclear_follow_up_scheduled", 6],
+  ["stated_payment_already_made", 5],
+  ["opt_out_requested", 4],
+  ["wrong_number", 4],
+  ["language_handoff", 3],
+  ["id_failed", 3],
+];
+
+const TRANSFER_REASONS: TransferReason[] = [
+  "make_payment",
+  "sensitive_case",
+  "borrower_requested_live_agent",
+  "vague_long_term_response",
+  "undefined_transfer",
+];
+
+const CALL_NOTES: Partial<Record<CallOutcome, string>> = {
+  payment_initiated_sms: "Borrower accepted the payment link by SMS.",
+  intent_date_collected: "Borrower committed to a payment date.",
+  follow_up_requested: "Borrower asked for a call back later in the week.",
+  stated_payment_already_made: "Borrower says the payment was already sent.",
+  opt_out_requested: "Borrower asked to stop all contact.",
+  wrong_number: "Person who answered does not know the borrower.",
+  language_handoff: "Borrower prefers Spanish.",
+  id_failed: "Borrower could not confirm date of birth.",
+};
+
+type ScriptLine = [CallSpeaker, string];
+
+const CALL_GREETING: ScriptLine[] = [
+  ["agent", "Hi, this is the CarPay assistant calling about your auto loan. Am I speaking with the account holder?"],
+];
+
+const IDENTITY_CHECK: ScriptLine[] = [
+  ["borrower", "Yes, speaking."],
+  ["agent", "Thanks. Before we go on, can you confirm your date of birth?"],
+];
+
+const IDENTITY_VERIFIED: ScriptLine[] = [
+  ["borrower", "Sure, it's the one on file."],
+  ["agent", "Thank you, you're verified. I'm calling because your car payment is past due. Are you able to take care of it today?"],
+];
+
+// What was said after the greeting, by outcome; unanswered calls have no transcript.
+const CALL_SCRIPTS: Partial<Record<CallOutcome, ScriptLine[]>> = {
+  payment_initiated_sms: [
+    ...IDENTITY_CHECK,
+    ...IDENTITY_VERIFIED,
+    ["borrower", "Yes, I can pay it now."],
+    ["agent", "Great. I'm texting you a secure payment link now."],
+    ["borrower", "Got it, I'll pay through the link."],
+  ],
+  intent_date_collected: [
+    ...IDENTITY_CHECK,
+    ...IDENTITY_VERIFIED,
+    ["borrower", "Not today, but I get paid on Friday. Can I pay then?"],
+    ["agent", "Of course. I'll note Friday as your payment date and send a reminder that morning."],
+    ["borrower", "That works, thanks."],
+  ],
+  follow_up_requested: [
+    ...IDENTITY_CHECK,
+    ...IDENTITY_VERIFIED,
+    ["borrower", "I'm at work right now. Can you call me back later this week?"],
+    ["agent", "No problem, we'll call you back in a couple of days."],
+  ],
+  stated_payment_already_made: [
+    ...IDENTITY_CHECK,
+    ...IDENTITY_VERIFIED,
+    ["borrower", "I already sent that payment on Monday."],
+    ["agent", "Thanks for letting me know. I'll ask the dealer to check for it."],
+  ],
+  opt_out_requested: [
+    ...IDENTITY_CHECK,
+    ...IDENTITY_VERIFIED,
+    ["borrower", "Please stop calling me about this."],
+    ["agent", "Understood. We'll stop contacting you about this account."],
+  ],
+  transfer_to_live_agent: [
+    ...IDENTITY_CHECK,
+    ...IDENTITY_VERIFIED,
+    ["borrower", "I'd rather talk to a real person about my situation."],
+    ["agent", "Of course. Let me transfer you to a member of the team."],
+  ],
+  unclear_follow_up_scheduled: [
+    ...IDENTITY_CHECK,
+    ...IDENTITY_VERIFIED,
+    ["borrower", "I'm not sure when I'll have the money. Maybe next month, maybe later."],
+    ["agent", "I understand. I'll schedule a follow-up call so we can check in."],
+  ],
+  wrong_number: [
+    ["borrower", "No, I think you have the wrong number. I don't know who that is."],
+    ["agent", "Sorry to bother you. We'll update our records."],
+  ],
+  language_handoff: [
+    ["borrower", "Perdón, ¿habla español?"],
+    ["agent", "I'll connect you with a Spanish-speaking agent."],
+  ],
+  id_failed: [
+    ...IDENTITY_CHECK,
+    ["borrower", "I don't remember what date you'd have. Why do you need that?"],
+    ["agent", "I'm sorry, I wasn't able to verify your identity, so I can't discuss the account. I'll have a team member reach out."],
+  ],
+};
+
+function identityVerification(callOutcome: CallOutcome): IdentityVerification {
+  if (callOutcome === "id_failed") return "failed";
+  if (callOutcome === "unanswered" || callOutcome === "wrong_number" || callOutcome === "language_handoff") return "not_attempted";
+  return "verified";
+}
+
+// Spreads the script's turns evenly over the talk time.
+function callTranscript(callOutcome: CallOutcome, durationSec: number): TranscriptTurn[] | undefined {
+  const script = CALL_SCRIPTS[callOutcome];
+  if (!script) return undefined;
+  const lines = [...CALL_GREETING, ...script];
+  return lines.map(([speaker, text], index) => ({ speaker, offsetSec: Math.round((index * durationSec) / lines.length), text }));
+}
+
+type MockDb = {
+  clockOffsetMs: number;
+  seq: number;
+  enrollments: Enrollment[];
+  timelines: Record<string, TimelineEvent[]>;
+  scheduledPayments: Record<string, string>;
+  nextDay: Record<string, number>;
+  cadences: Cadence[];
+  // End-of-day summary per UTC date, so the dashboard can compare against yesterday. Keyed by yyyy-mm-dd
+  // for all dealers and `${date}:${dealerId}` for each dealer's own trend.
+  snapshots: Record<string, EnrollmentSummarySnapshot>;
+  doNotContact: DoNotContactEntry[];
+  audit: AuditEntry[];
+};
+
+class MockHttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Deterministic randomness so replaying the clock produces the same history.
+function random(key: string) {
+  let h = 1779033703 ^ key.length;
+  for (let i = 0; i < key.length; i++) {
+    h = Math.imul(h ^ key.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return ((h ^= h >>> 16) >>> 0) / 4294967296;
+}
+
+function pickWeighted<T>(items: Array<[T, number]>, roll: number): T {
+  const total = items.reduce((sum, [, weight]) => sum + weight, 0);
+  let cursor = roll * total;
+  for (const [item, weight] of items) {
+    cursor -= weight;
+    if (cursor < 0) return item;
+  }
+  return items[items.length - 1][0];
+}
+
+function iso(ms: number) {
+  return new Date(ms).toISOString();
+}
+
+function defaultCadence(): Cadence {
+  return {
+    id: DEFAULT_CADENCE_ID,
+    version: 1,
+    name: "Standard day 0–10",
+    steps: STANDARD_STEPS,
+    escalationDay: 10,
+    dealerIds: [],
+    isDefault: true,
+    createdAt: iso(Date.now()),
+  };
+}
+
+function emptyDb(): MockDb {
+  return { clockOffsetMs: 0, seq: 0, enrollments: [], timelines: {}, scheduledPayments: {}, nextDay: {}, cadences: [defaultCadence()], snapshots: {}, doNotContact: [], audit: [] };
+}
+
+let db: MockDb | null = null;
+const clockListeners = new Set<() => void>();
+
+function loadDb(): MockDb {
+  if (db) return db;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      db = { ...emptyDb(), ...(JSON.parse(raw) as Partial<MockDb>) };
+      return db;
+    }
+  } catch {
+    // fall through to a fresh seed
+  }
+  db = emptyDb();
+  seed(db);
+  saveDb();
+  return db;
+}
+
+function saveDb() {
+  if (!db) return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+  } catch {
+    // storage full or unavailable; keep the in-memory copy
+  }
+}
+
+function nowMs(state: MockDb) {
+  return Date.now() + state.clockOffsetMs;
+}
+
+const SYSTEM_ACTOR: Actor = { type: "system", id: "sequence-engine", name: "Sequence engine" };
+const AI_CALLER: Actor = { type: "ai_agent", id: "ai-caller", name: "AI caller" };
+
+// Who the change being made right now is attributed to. Requests run as the signed-in user and the screen
+// they came from; the sequence's own steps run as the engine or the AI caller.
+let attribution: Attribution & { actor: Actor } = { actor: SYSTEM_ACTOR };
+
+function attributedTo<T>(actor: Actor, source: string | undefined, run: () => T): T {
+  const previous = attribution;
+  attribution = source ? { actor, source } : { actor };
+  try {
+    return run();
+  } finally {
+    attribution = previous;
+  }
+}
+
+function userActor(user: AuthUser): Actor {
+  return { type: "user", id: user.id, name: user.name, role: user.role };
+}
+
+function audit(state: MockDb, action: AuditAction, targetId: string, detail: string, options: { enrollment?: Enrollment; borrowerId?: string | null; at?: string } = {}) {
+  const entry: AuditEntry = {
+    id: `aud_${String(state.audit.length + 1).padStart(6, "0")}`,
+    at: options.at ?? iso(nowMs(state)),
+    actor: attribution.actor,
+    action,
+    targetId,
+    detail,
+  };
+  if (attribution.source) entry.source = attribution.source;
+  if (options.enrollment) {
+    entry.enrollmentId = options.enrollment.id;
+    entry.dealerId = options.enrollment.dealerId;
+  }
+  const borrowerId = options.enrollment?.borrowerId ?? options.borrowerId;
+  if (borrowerId) entry.borrowerId = borrowerId;
+  state.audit.push(entry);
+}
+
+// Touches and calls are activity, not changes to the enrollment, so they aren't audited.
+const EVENT_AUDIT_ACTIONS: Partial<Record<TimelineEvent["type"], AuditAction>> = {
+  ESCALATED: "enrollment.escalated",
+  SUPPRESSED: "enrollment.suppressed",
+  RESUMED: "enrollment.resumed",
+  DE_ESCALATED: "enrollment.de_escalated",
+  ESCALATION_RESOLVED: "escalation.resolved",
+  PAYMENT_POSTED: "payment.posted",
+  AGENT_NOTE: "note.added",
+};
+
+function eventDetail(event: TimelineEvent) {
+  switch (event.type) {
+    case "PAYMENT_POSTED":
+      return `$${event.amount.toFixed(2)}${event.method ? ` by ${event.method}` : ""}${event.remainingBalance != null ? ` · $${event.remainingBalance.toFixed(2)} left` : ""}`;
+    case "ESCALATION_RESOLVED":
+      return `${event.resolution} (${event.resolvedBy}): ${event.reason}`;
+    case "AGENT_NOTE":
+      return `${event.kind}: ${event.body}`;
+    case "TOUCH_SENT":
+    case "CALL_COMPLETED":
+      return event.type;
+    default:
+      return event.reason;
+  }
+}
+
+function emit(state: MockDb, id: string, event: TimelineEvent) {
+  const stamped: TimelineEvent = { ...event, actor: event.actor ?? attribution.actor };
+  if (attribution.source) stamped.source = attribution.source;
+  (state.timelines[id] ??= []).push(stamped);
+
+  const action = EVENT_AUDIT_ACTIONS[event.type];
+  const enrollment = state.enrollments.find((e) => e.id === id);
+  if (action) audit(state, action, id, eventDetail(stamped), { enrollment, at: eventTimestamp(stamped) });
+}
+
+// Applies a payment to the running balance. Clearing the balance (or paying against no amountDue at all)
+// exits the sequence as PAID_EXIT. A partial payment leaves the status as it was: an ESCALATED enrollment
+// stays with whoever is working it, now showing the reduced balance.
+function postPayment(state: MockDb, enrollment: Enrollment, atMs: number, amount: number, method?: PaymentMethod, reference?: string) {
+  enrollment.amountPaid = Math.round(((enrollment.amountPaid ?? 0) + amount) * 100) / 100;
+  enrollment.paymentPostedAt = iso(atMs);
+  enrollment.updatedAt = iso(atMs);
+  const balance = remainingBalance(enrollment);
+  const event: PaymentPostedEvent = { type: "PAYMENT_POSTED", postedAt: iso(atMs), amount };
+  if (method) event.method = method;
+  if (reference) event.reference = reference;
+  if (balance != null) event.remainingBalance = balance;
+  emit(state, enrollment.id, event);
+
+  if (!balance) {
+    enrollment.status = "PAID_EXIT";
+    delete state.scheduledPayments[enrollment.id];
+  }
+}
+
+// Payments the engine simulates (kept promises, self-pay, payment links) settle the remaining balance. With no
+// amountDue there is nothing to post, so the borrower stays in the sequence until someone records the payment.
+function payInFull(state: MockDb, enrollment: Enrollment, atMs: number) {
+  const balance = remainingBalance(enrollment);
+  delete state.scheduledPayments[enrollment.id];
+  if (balance) postPayment(state, enrollment, atMs, balance);
+}
+
+function exitWith(state: MockDb, enrollment: Enrollment, status: "ESCALATED" | "SUPPRESSED", atMs: number, reason?: string) {
+  enrollment.status = status;
+  enrollment.updatedAt = iso(atMs);
+  delete state.scheduledPayments[enrollment.id];
+
+  if (status === "ESCALATED") {
+    emit(state, enrollment.id, { type: "ESCALATED", at: iso(atMs), reason: reason ?? "manual_escalation" });
+    enrollment.escalationReason = reason ?? "manual_escalation";
+  } else {
+    emit(state, enrollment.id, { type: "SUPPRESSED", at: iso(atMs), reason: reason ?? "manual" });
+    enrollment.suppressedReason = reason ?? "manual";
+  }
+}
+
+function runCall(state: MockDb, enrollment: Enrollment, day: number, atMs: number) {
+  const key = `${enrollment.id}:${day}`;
+  const callOutcome = pickWeighted(CALL_OUTCOME_WEIGHTS, random(`${key}:outcome`));
+  const endedMs = atMs + Math.round((1 + random(`${key}:duration`) * 6) * 60 * 1000);
+  // Ringing time counts towards endedAt but not talk time.
+  const durationSec = callOutcome === "unanswered" ? 0 : Math.max(0, Math.round((endedMs - atMs) / 1000) - 20);
+  const event: CallCompletedEvent = {
+    type: "CALL_COMPLETED",
+    day,
+    startedAt: iso(atMs),
+    endedAt: iso(endedMs),
+    callOutcome,
+    durationSec,
+    identityVerification: identityVerification(callOutcome),
+  };
+  if (CALL_NOTES[callOutcome]) event.notes = CALL_NOTES[callOutcome];
+  const transcript = callTranscript(callOutcome, durationSec);
+  if (transcript) {
+    event.transcript = transcript;
+    event.recording = { id: `rec_${enrollment.id}_d${day}` };
+  }
+
+  if (callOutcome === "transfer_to_live_agent") {
+    event.transferReason = TRANSFER_REASONS[Math.floor(random(`${key}:transfer`) * TRANSFER_REASONS.length)];
+  } else if (callOutcome === "language_handoff") {
+    event.transferReason = "language_escalation";
+  } else if (callOutcome === "id_failed") {
+    event.transferReason = "failed_identity_verification";
+  }
+
+  if (callOutcome === "intent_date_collected") {
+    const promisedMs = atMs + Math.ceil(1 + random(`${key}:intent`) * 4) * DAY_MS;
+    event.intentDate = iso(promisedMs).slice(0, 10);
+    if (random(`${key}:kept`) < 0.6) state.scheduledPayments[enrollment.id] = iso(promisedMs);
+  }
+  emit(state, enrollment.id, event);
+
+  switch (callOutcome) {
+    case "payment_initiated_sms":
+      payInFull(state, enrollment, endedMs + 20 * 60 * 1000);
+      break;
+    case "opt_out_requested":
+      exitWith(state, enrollment, "SUPPRESSED", endedMs, "opt_out");
+      break;
+    case "wrong_number":
+      exitWith(state, enrollment, "SUPPRESSED", endedMs, "wrong_number");
+      break;
+    case "transfer_to_live_agent":
+    case "language_handoff":
+    case "id_failed":
+      exitWith(state, enrollment, "ESCALATED", endedMs, `${callOutcome}: ${event.transferReason}`);
+      break;
+  }
+}
+
+function runDay(state: MockDb, enrollment: Enrollment, day: number, atMs: number) {
+  enrollment.currentDay = day;
+  enrollment.updatedAt = iso(atMs);
+
+  const cadence = enrollmentCadence(state, enrollment);
+  if (day >= cadence.escalationDay) {
+    exitWith(state, enrollment, "ESCALATED", atMs, `day_${cadence.escalationDay}_no_payment`);
+    return;
+  }
+
+  const step = cadence.steps.find((s) => s.day === day);
+  if (step) {
+    emit(state, enrollment.id, { type: "TOUCH_SENT", channel: step.channel, day, templateId: step.templateId, sentAt: iso(atMs) });
+  }
+
+  if (step?.channel === "call") {
+    attributedTo(AI_CALLER, undefined, () => runCall(state, enrollment, day, atMs));
+  } else if (step && !state.scheduledPayments[enrollment.id] && random(`${enrollment.id}:${day}:self_pay`) < 0.04) {
+    const delayMs = Math.round((0.1 + random(`${enrollment.id}:${day}:self_pay_delay`) * 0.8) * DAY_MS);
+    state.scheduledPayments[enrollment.id] = iso(atMs + delayMs);
+  }
+
+  state.nextDay[enrollment.id] = day + 1;
+  if (enrollment.status === "ACTIVE") {
+    enrollment.nextScheduledAt = iso(atMs + DAY_MS);
+  }
+}
+
+// Runs every scheduled step (touches, calls, promised payments) that is due by the simulated clock.
+// Whichever request triggers the catch-up, the steps are the engine's doing, not the caller's.
+function advance(state: MockDb) {
+  attributedTo(SYSTEM_ACTOR, undefined, () => {
+    const now = nowMs(state);
+    for (const enrollment of state.enrollments) {
+      while (enrollment.status === "ACTIVE") {
+        const stepMs = +new Date(enrollment.nextScheduledAt);
+        const paymentAt = state.scheduledPayments[enrollment.id];
+        const paymentMs = paymentAt ? +new Date(paymentAt) : Infinity;
+
+        if (paymentMs <= now && paymentMs <= stepMs) {
+          payInFull(state, enrollment, paymentMs);
+          continue;
+        }
+        if (stepMs > now) break;
+
+        const day = state.nextDay[enrollment.id] ?? enrollment.currentDay + 1;
+        runDay(state, enrollment, day, stepMs);
+      }
+    }
+  });
+}
+
+function latestCadences(state: MockDb) {
+  const latest = new Map<string, Cadence>();
+  state.cadences.forEach((cadence) => {
+    const current = latest.get(cadence.id);
+    if (!current || current.version < cadence.version) latest.set(cadence.id, cadence);
+  });
+  return Array.from(latest.values());
+}
+
+function findCadence(state: MockDb, id: string, version?: number | null) {
+  const versions = state.cadences.filter((c) => c.id === id);
+  const cadence = version == null ? versions.sort((a, b) => b.version - a.version)[0] : versions.find((c) => c.version === version);
+  if (!cadence) throw new MockHttpError(404, `Cadence ${id}${version == null ? "" : ` v${version}`} not found`);
+  return cadence;
+}
+
+function cadenceForDealer(state: MockDb, dealerId: string) {
+  const latest = latestCadences(state);
+  return latest.find((c) => c.dealerIds.includes(dealerId)) ?? latest.find((c) => c.isDefault) ?? findCadence(state, DEFAULT_CADENCE_ID);
+}
+
+function enrollmentCadence(state: MockDb, enrollment: Enrollment) {
+  const versions = state.cadences.filter((c) => c.id === enrollment.cadenceId);
+  return versions.find((c) => c.version === enrollment.cadenceVersion) ?? versions[versions.length - 1] ?? cadenceForDealer(state, enrollment.dealerId);
+}
+
+function readCadencePayload(body: unknown): SaveCadencePayload {
+  const value = (body && typeof body === "object" ? body : {}) as Partial<SaveCadencePayload>;
+  if (typeof value.name !== "string" || !value.name.trim()) throw new MockHttpError(400, "name is required");
+  if (typeof value.escalationDay !== "number" || value.escalationDay < 1) throw new MockHttpError(400, "escalationDay must be at least 1");
+  if (!Array.isArray(value.steps) || !value.steps.length) throw new MockHttpError(400, "steps must contain at least one touch");
+
+  const days = new Set<number>();
+  value.steps.forEach((step) => {
+    if (!Number.isInteger(step.day) || step.day < 0 || step.day >= value.escalationDay!) {
+      throw new MockHttpError(400, `Step day ${step.day} must be between 0 and ${value.escalationDay! - 1}`);
+    }
+    if (days.has(step.day)) throw new MockHttpError(400, `Day ${step.day} has more than one step`);
+    if (!CHANNELS.includes(step.channel)) throw new MockHttpError(400, `Unknown channel ${step.channel}`);
+    if (typeof step.templateId !== "string" || !step.templateId.trim()) throw new MockHttpError(400, `Day ${step.day} needs a templateId`);
+    days.add(step.day);
+  });
+
+  return {
+    name: value.name.trim(),
+    escalationDay: value.escalationDay,
+    steps: [...value.steps].sort((a, b) => a.day - b.day).map((step) => ({ ...step, templateId: step.templateId.trim() })),
+  };
+}
+
+function cadenceRoute(state: MockDb, method: string, url: URL, parts: string[], body: unknown): unknown {
+  const [, , id, action] = parts;
+
+  if (!id && method === "GET") return latestCadences(state);
+  if (!id && method === "POST") {
+    state.seq += 1;
+    const cadence: Cadence = {
+      id: `cad_${String(state.seq).padStart(4, "0")}`,
+      version: 1,
+      ...readCadencePayload(body),
+      dealerIds: [],
+      isDefault: false,
+      createdAt: iso(nowMs(state)),
+    };
+    state.cadences.push(cadence);
+    audit(state, "cadence.saved", cadence.id, `Created ${cadence.name} v1`);
+    return cadence;
+  }
+
+  if (id && !action && method === "GET") {
+    const version = url.searchParams.get("version");
+    return findCadence(state, id, version == null ? null : Number(version));
+  }
+  if (id && action === "versions" && method === "GET") {
+    findCadence(state, id);
+    return state.cadences.filter((c) => c.id === id).sort((a, b) => b.version - a.version);
+  }
+  if (id && action === "versions" && method === "POST") {
+    const current = findCadence(state, id);
+    const cadence: Cadence = {
+      ...current,
+      ...readCadencePayload(body),
+      version: current.version + 1,
+      createdAt: iso(nowMs(state)),
+    };
+    state.cadences.push(cadence);
+    audit(state, "cadence.saved", cadence.id, `Saved ${cadence.name} v${cadence.version}`);
+    return cadence;
+  }
+  if (id && action === "dealers" && method === "POST") {
+    const cadence = findCadence(state, id);
+    const dealerIds = body && typeof body === "object" ? (body as { dealerIds?: unknown }).dealerIds : undefined;
+    if (!Array.isArray(dealerIds) || dealerIds.some((d) => typeof d !== "string")) throw new MockHttpError(400, "dealerIds must be an array of strings");
+    const assigned = Array.from(new Set(dealerIds.map((d: string) => d.trim()).filter(Boolean)));
+    // A dealer follows exactly one cadence, so assigning here removes it from the others.
+    latestCadences(state).forEach((other) => {
+      if (other.id !== id) other.dealerIds = other.dealerIds.filter((d) => !assigned.includes(d));
+    });
+    cadence.dealerIds = assigned;
+    audit(state, "cadence.assigned", cadence.id, `${cadence.name} v${cadence.version} assigned to ${assigned.join(", ") || "no dealers"}`);
+    return cadence;
+  }
+
+  throw new MockHttpError(405, `${method} ${url.pathname} is not supported by the mock API`);
+}
+
+function insertEnrollment(state: MockDb, payload: CreateEnrollmentPayload, createdMs: number) {
+  const cadence = payload.cadenceId ? findCadence(state, payload.cadenceId) : cadenceForDealer(state, payload.dealerId);
+  state.seq += 1;
+  const enrollment: Enrollment = {
+    id: `enr_${String(state.seq).padStart(4, "0")}`,
+    borrowerId: payload.borrowerId,
+    dealerId: payload.dealerId,
+    status: "ACTIVE",
+    currentDay: 0,
+    nextScheduledAt: iso(createdMs),
+    createdAt: iso(createdMs),
+    updatedAt: iso(createdMs),
+    paymentPostedAt: null,
+    suppressedReason: null,
+    escalationReason: null,
+    phone: payload.phone,
+    email: payload.email || null,
+    vehicle: payload.vehicle || null,
+    addressState: payload.addressState?.trim().toUpperCase() || null,
+    amountDue: payload.amountDue ?? null,
+    cadenceId: cadence.id,
+    cadenceVersion: cadence.version,
+  };
+  state.enrollments.push(enrollment);
+  state.timelines[enrollment.id] = [];
+  state.nextDay[enrollment.id] = 0;
+  return enrollment;
+}
+
+const SEED_DEALERS = ["abc-motors", "metro-auto", "lakeside-cars"];
+const DEALER_NAMES: Record<string, string> = { "abc-motors": "ABC Motors", "metro-auto": "Metro Auto", "lakeside-cars": "Lakeside Cars" };
+const SEED_VEHICLES = ["2019 Honda Civic", "2020 Toyota RAV4", "2018 Ford F-150", "2021 Nissan Altima", "2017 Chevy Malibu"];
+// Spread across timezones and the stricter states; 555 isn't a real area code, so those borrowers have no
+// known timezone unless an address says otherwise.
+const SEED_AREA_CODES = ["214", "617", "206", "305", "415", "312", "555"];
+const SEED_ADDRESS_STATES: Record<number, string> = { 3: "AZ", 6: "NY", 10: "HI" };
+
+function summarySnapshot(state: MockDb, dealerId: string | null): EnrollmentSummarySnapshot {
+  const now = nowMs(state);
+  const endOfDay = new Date(now);
+  endOfDay.setUTCHours(23, 59, 59, 999);
+  const startOfDay = new Date(now);
+  startOfDay.setUTCHours(0, 0, 0, 0);
+
+  const counts: Record<EnrollmentStatus, number> = { ACTIVE: 0, PAID_EXIT: 0, ESCALATED: 0, SUPPRESSED: 0 };
+  let touchesDueToday = 0;
+  let overdue = 0;
+  let amountDueOutstanding = 0;
+
+  // "Due today" covers the whole day: touches already sent since midnight plus those still scheduled.
+  state.enrollments.forEach((e) => {
+    if (+new Date(e.createdAt) > now || (dealerId && e.dealerId !== dealerId)) return;
+    counts[e.status] += 1;
+    touchesDueToday += (state.timelines[e.id] ?? []).filter(
+      (event) => event.type === "TOUCH_SENT" && +new Date(event.sentAt) >= +startOfDay && +new Date(event.sentAt) <= now,
+    ).length;
+    if (e.status === "ACTIVE" || e.status === "ESCALATED") amountDueOutstanding += remainingBalance(e) ?? 0;
+    if (e.status !== "ACTIVE") return;
+    const next = +new Date(e.nextScheduledAt);
+    if (next < now) overdue += 1;
+    else if (next >= +startOfDay && next <= +endOfDay) touchesDueToday += 1;
+  });
+
+  return { counts, touchesDueToday, overdue, amountDueOutstanding };
+}
+
+function snapshotKey(date: string, dealerId: string | null) {
+  return dealerId ? `${date}:${dealerId}` : date;
+}
+
+function recordSnapshot(state: MockDb) {
+  const date = iso(nowMs(state)).slice(0, 10);
+  [null, ...dealerIds(state)].forEach((dealerId) => {
+    state.snapshots[snapshotKey(date, dealerId)] = summarySnapshot(state, dealerId);
+  });
+}
+
+function summary(state: MockDb, dealerId: string | null): EnrollmentSummary {
+  const now = nowMs(state);
+  const snapshot = summarySnapshot(state, dealerId);
+  return { ...snapshot, asOf: iso(now), previous: state.snapshots[snapshotKey(iso(now - DAY_MS).slice(0, 10), dealerId)] ?? null };
+}
+
+function dealerIds(state: MockDb) {
+  return Array.from(new Set([...SEED_DEALERS, ...state.enrollments.map((e) => e.dealerId)]));
+}
+
+// Dealers aren't stored; the seeded ones have display names and any other id seen on an enrollment is listed as-is.
+function listDealers(state: MockDb): Dealer[] {
+  return dealerIds(state)
+    .map((id) => ({ id, name: DEALER_NAMES[id] ?? id }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function seed(state: MockDb) {
+  const now = nowMs(state);
+  for (let i = 0; i < 18; i++) {
+    const ageDays = (i * 7) % 13;
+    const createdMs = now - ageDays * DAY_MS - Math.round(random(`seed:${i}:hour`) * 8) * 60 * 60 * 1000;
+    insertEnrollment(
+      state,
+      {
+        borrowerId: `B-${10230 + i * 17}`,
+        dealerId: SEED_DEALERS[i % SEED_DEALERS.length],
+        phone: `+1${SEED_AREA_CODES[i % SEED_AREA_CODES.length]}${String(2000100 + i * 37).padStart(7, "0")}`,
+        email: i % 3 === 0 ? undefined : `borrower${i}@example.com`,
+        vehicle: SEED_VEHICLES[i % SEED_VEHICLES.length],
+        addressState: SEED_ADDRESS_STATES[i],
+        amountDue: Math.round(180 + random(`seed:${i}:amount`) * 620),
+      },
+      createdMs,
+    );
+  }
+  // One borrower asked to stop contact a few days ago, but their enrollment kept running.
+  const optedOut = state.enrollments[4];
+  state.doNotContact.push({
+    id: "dnc_0001",
+    borrowerId: optedOut.borrowerId,
+    phone: optedOut.phone ?? null,
+    reason: "Borrower asked to stop all contact",
+    addedBy: "Jordan Green",
+    addedAt: iso(now - 3 * DAY_MS),
+  });
+  // Play the seed up to yesterday first so there is a previous-day snapshot to trend against.
+  state.clockOffsetMs -= DAY_MS;
+  advance(state);
+  recordSnapshot(state);
+  state.clockOffsetMs += DAY_MS;
+  advance(state);
+  recordSnapshot(state);
+}
+
+function findEnrollment(state: MockDb, id: string) {
+  const enrollment = state.enrollments.find((e) => e.id === id);
+  if (!enrollment) throw new MockHttpError(404, `Enrollment ${id} not found`);
+  return enrollment;
+}
+
+function readReason(body: unknown) {
+  const reason = body && typeof body === "object" ? (body as { reason?: unknown }).reason : undefined;
+  if (typeof reason !== "string" || !reason.trim()) throw new MockHttpError(400, "reason is required");
+  return reason.trim();
+}
+
+function readCreatePayload(body: unknown): CreateEnrollmentPayload {
+  const value = (body && typeof body === "object" ? body : {}) as Partial<CreateEnrollmentPayload>;
+  for (const field of ["borrowerId", "dealerId", "phone"] as const) {
+    if (typeof value[field] !== "string" || !value[field]?.trim()) throw new MockHttpError(400, `${field} is required`);
+  }
+  const phone = toE164(value.phone!);
+  if (!phone) throw new MockHttpError(400, "phone is not a valid phone number");
+  if (value.email && (typeof value.email !== "string" || !isValidEmail(value.email))) throw new MockHttpError(400, "email is not valid");
+  if (value.amountDue != null) {
+    const amountError = typeof value.amountDue === "number" ? amountDueError(value.amountDue) : "amountDue must be a number";
+    if (amountError) throw new MockHttpError(400, amountError);
+  }
+  return { ...(value as CreateEnrollmentPayload), borrowerId: value.borrowerId!.trim(), dealerId: value.dealerId!.trim(), phone, email: value.email?.trim() };
+}
+
+const RESOLUTIONS: EscalationResolution[] = ["paid", "returned_to_active", "suppressed"];
+
+function resolveEscalation(state: MockDb, enrollment: Enrollment, body: unknown, user: AuthUser) {
+  if (enrollment.status !== "ESCALATED") throw new MockHttpError(409, `Enrollment ${enrollment.id} is not escalated`);
+  const value = (body && typeof body === "object" ? body : {}) as { resolution?: unknown; amount?: unknown };
+  const resolution = value.resolution as EscalationResolution;
+  if (!RESOLUTIONS.includes(resolution)) throw new MockHttpError(400, "resolution must be paid, returned_to_active or suppressed");
+  if (value.amount != null && typeof value.amount !== "number") throw new MockHttpError(400, "amount must be a number");
+  const amount = value.amount ?? undefined;
+  if (resolution === "paid") {
+    const amountError = paidResolutionError(enrollment, amount);
+    if (amountError) throw new MockHttpError(400, amountError);
+  }
+  const reason = readReason(body);
+  const now = nowMs(state);
+  const restart = resolution === "returned_to_active" && reachedEscalationDay(state, enrollment);
+
+  emit(state, enrollment.id, { type: "ESCALATION_RESOLVED", at: iso(now), resolution, resolvedBy: user.name, reason, ...(restart && { restartedCadence: true }) });
+  enrollment.assignedTo = null;
+
+  if (resolution === "paid") {
+    postPayment(state, enrollment, now, amount ?? remainingBalance(enrollment)!);
+  } else if (resolution === "suppressed") {
+    exitWith(state, enrollment, "SUPPRESSED", now, reason);
+  } else {
+    enrollment.escalationReason = null;
+    returnToActive(state, enrollment, now, restart);
+  }
+  return enrollment;
+}
+
+const PAYMENT_METHODS: PaymentMethod[] = ["card", "ach", "cash", "check", "other"];
+
+function recordPayment(state: MockDb, enrollment: Enrollment, body: unknown) {
+  if (!canRecordPayment(enrollment.status)) throw new MockHttpError(409, `Cannot record a payment on an enrollment in ${enrollment.status}`);
+  const value = (body && typeof body === "object" ? body : {}) as { amount?: unknown; method?: unknown; reference?: unknown };
+  if (typeof value.amount !== "number") throw new MockHttpError(400, "amount must be a number");
+  const amountError = paymentAmountError(enrollment, value.amount);
+  if (amountError) throw new MockHttpError(400, amountError);
+  const method = value.method as PaymentMethod;
+  if (!PAYMENT_METHODS.includes(method)) throw new MockHttpError(400, `method must be one of ${PAYMENT_METHODS.join(", ")}`);
+  if (value.reference != null && typeof value.reference !== "string") throw new MockHttpError(400, "reference must be a string");
+
+  postPayment(state, enrollment, nowMs(state), value.amount, method, value.reference?.trim() || undefined);
+  return enrollment;
+}
+
+// Back into the sequence at the day it left off; the next touch goes out a day from now.
+function reactivate(state: MockDb, enrollment: Enrollment, type: "RESUMED" | "DE_ESCALATED", reason: string) {
+  const now = nowMs(state);
+  const restart = reachedEscalationDay(state, enrollment);
+  emit(state, enrollment.id, { type, at: iso(now), reason, ...(restart && { restartedCadence: true }) });
+  enrollment.suppressedReason = null;
+  enrollment.escalationReason = null;
+  enrollment.assignedTo = null;
+  returnToActive(state, enrollment, now, restart);
+}
+
+// Continuing an enrollment that had reached the escalation day would re-escalate it on the very next step.
+function reachedEscalationDay(state: MockDb, enrollment: Enrollment) {
+  const day = state.nextDay[enrollment.id] ?? enrollment.currentDay + 1;
+  return day >= enrollmentCadence(state, enrollment).escalationDay;
+}
+
+// Back in the sequence after someone stepped in, with the next step a day out; `restart` starts the cadence
+// over from Day 0, which the event that caused it records as `restartedCadence`.
+function returnToActive(state: MockDb, enrollment: Enrollment, now: number, restart: boolean) {
+  enrollment.status = "ACTIVE";
+  enrollment.updatedAt = iso(now);
+  enrollment.nextScheduledAt = iso(now + DAY_MS);
+  if (restart) {
+    state.nextDay[enrollment.id] = 0;
+    enrollment.currentDay = 0;
+  }
+}
+
+function escalationQueue(state: MockDb, dealerId: string | null): EscalationQueueItem[] {
+  return state.enrollments
+    .filter((e) => e.status === "ESCALATED" && (!dealerId || e.dealerId === dealerId))
+    .map((enrollment) => {
+      const events = [...(state.timelines[enrollment.id] ?? [])].reverse();
+      const escalated = events.find((event): event is EscalatedEvent => event.type === "ESCALATED");
+      const lastCall = events.find((event): event is CallCompletedEvent => event.type === "CALL_COMPLETED");
+      return {
+        enrollment,
+        escalatedAt: escalated?.at ?? enrollment.updatedAt,
+        reason: escalated?.reason ?? enrollment.escalationReason ?? "",
+        lastCall: lastCall ?? null,
+      };
+    });
+}
+
+const SORT_KEYS: EnrollmentSortKey[] = ["nextScheduledAt", "amountDue", "currentDay", "createdAt"];
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 200;
+
+function sortValue(enrollment: Enrollment, key: EnrollmentSortKey) {
+  if (key === "amountDue") return enrollment.amountDue ?? 0;
+  if (key === "currentDay") return enrollment.currentDay;
+  return +new Date(enrollment[key]);
+}
+
+// Cursors are opaque to the client; here they are just the offset of the next page.
+function listEnrollments(state: MockDb, params: URLSearchParams) {
+  const status = params.get("status") as EnrollmentStatus | null;
+  if (status && !STATUSES.includes(status)) throw new MockHttpError(400, `Unknown status ${status}`);
+  const sort = (params.get("sort") ?? "nextScheduledAt") as EnrollmentSortKey;
+  if (!SORT_KEYS.includes(sort)) throw new MockHttpError(400, `Unknown sort key ${sort}`);
+  const direction = params.get("order") === "desc" ? -1 : 1;
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(params.get("limit")) || DEFAULT_PAGE_SIZE));
+  const offset = Math.max(0, Number(params.get("cursor")) || 0);
+  const term = params.get("q")?.trim().toLowerCase() ?? "";
+  const dealerId = params.get("dealerId");
+
+  const matches = state.enrollments
+    .filter((e) => !status || e.status === status)
+    .filter((e) => !dealerId || e.dealerId === dealerId)
+    .filter((e) => !term || [e.id, e.borrowerId, e.dealerId, e.phone ?? "", e.email ?? "", e.vehicle ?? ""].some((v) => v.toLowerCase().includes(term)))
+    .sort((a, b) => (sortValue(a, sort) - sortValue(b, sort)) * direction || a.id.localeCompare(b.id));
+  const page = matches.slice(offset, offset + limit);
+  const nextOffset = offset + page.length;
+
+  return {
+    enrollments: page,
+    pagination: { total: matches.length, nextCursor: nextOffset < matches.length ? String(nextOffset) : null },
+  };
+}
+
+function listAudit(state: MockDb, params: URLSearchParams) {
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(params.get("limit")) || DEFAULT_PAGE_SIZE));
+  const offset = Math.max(0, Number(params.get("cursor")) || 0);
+  const term = params.get("q")?.trim().toLowerCase() ?? "";
+  const actorType = params.get("actorType");
+  const action = params.get("action");
+  const dealerId = params.get("dealerId");
+  const from = params.get("from");
+  const to = params.get("to");
+
+  const matches = state.audit
+    .filter((entry) => !actorType || entry.actor.type === actorType)
+    .filter((entry) => !action || entry.action === action)
+    // Cadence and do-not-contact changes aren't tied to a dealer and show under every dealer.
+    .filter((entry) => !dealerId || !entry.dealerId || entry.dealerId === dealerId)
+    .filter((entry) => (!from || entry.at.slice(0, 10) >= from) && (!to || entry.at.slice(0, 10) <= to))
+    .filter(
+      (entry) =>
+        !term ||
+        [entry.actor.name, entry.actor.id, entry.targetId, entry.enrollmentId ?? "", entry.borrowerId ?? "", entry.action, entry.detail, entry.source ?? ""].some((v) =>
+          v.toLowerCase().includes(term),
+        ),
+    )
+    .sort((a, b) => b.at.localeCompare(a.at) || b.id.localeCompare(a.id));
+  const page = matches.slice(offset, offset + limit);
+  const nextOffset = offset + page.length;
+
+  return { entries: page, pagination: { total: matches.length, nextCursor: nextOffset < matches.length ? String(nextOffset) : null } };
+}
+
+function doNotContactLabel(entry: DoNotContactEntry) {
+  return [entry.borrowerId, entry.phone, entry.email].filter(Boolean).join(" / ");
+}
+
+function doNotContactRoute(state: MockDb, method: string, parts: string[], body: unknown, user: AuthUser): unknown {
+  const [, , id, action] = parts;
+  if (!id && method === "GET") return { entries: state.doNotContact };
+  if (!id && method === "POST") {
+    const value = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+    const identifiers = (["borrowerId", "phone", "email"] as const).filter((field) => typeof value[field] === "string" && value[field].trim());
+    if (!identifiers.length) throw new MockHttpError(400, "Provide a borrowerId, phone or email");
+    const reason = readReason(body);
+    state.seq += 1;
+    const entry: DoNotContactEntry = { id: `dnc_${String(state.seq).padStart(4, "0")}`, reason, addedBy: user.name, addedAt: iso(nowMs(state)) };
+    identifiers.forEach((field) => {
+      entry[field] = (value[field] as string).trim();
+    });
+    state.doNotContact.push(entry);
+    audit(state, "do_not_contact.added", entry.id, `${doNotContactLabel(entry)} · ${reason}`, { borrowerId: entry.borrowerId });
+    return entry;
+  }
+  if (id && action === "remove" && method === "POST") {
+    const index = state.doNotContact.findIndex((entry) => entry.id === id);
+    if (index < 0) throw new MockHttpError(404, `Do-not-contact entry ${id} not found`);
+    const [entry] = state.doNotContact.splice(index, 1);
+    audit(state, "do_not_contact.removed", entry.id, `${doNotContactLabel(entry)} removed (was: ${entry.reason})`, { borrowerId: entry.borrowerId });
+    return entry;
+  }
+  throw new MockHttpError(405, `${method} /${parts.join("/")} is not supported by the mock API`);
+}
+
+const AGENT_ACTIVITY_KINDS: AgentActivityKind[] = ["note", "inbound_call", "dealer_conversation", "borrower_email"];
+
+function addNote(state: MockDb, enrollment: Enrollment, body: unknown, user: AuthUser) {
+  const value = (body && typeof body === "object" ? body : {}) as Partial<AddAgentNotePayload>;
+  if (!AGENT_ACTIVITY_KINDS.includes(value.kind as AgentActivityKind)) throw new MockHttpError(400, `kind must be one of ${AGENT_ACTIVITY_KINDS.join(", ")}`);
+  if (typeof value.body !== "string" || !value.body.trim()) throw new MockHttpError(400, "body is required");
+  if (value.followUpDate != null && (typeof value.followUpDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value.followUpDate))) {
+    throw new MockHttpError(400, "followUpDate must be a YYYY-MM-DD date");
+  }
+  const event: AgentNoteEvent = { type: "AGENT_NOTE", at: iso(nowMs(state)), author: user.name, kind: value.kind!, body: value.body.trim() };
+  if (value.followUpDate) event.followUpDate = value.followUpDate;
+  emit(state, enrollment.id, event);
+  return event;
+}
+
+function route(state: MockDb, method: string, url: URL, body: unknown, user: AuthUser): unknown {
+  const parts = url.pathname.split("/").filter(Boolean);
+  const dealerId = url.searchParams.get("dealerId");
+  if (parts[0] === "api" && parts[1] === "do-not-contact") return doNotContactRoute(state, method, parts, body, user);
+  if (parts[0] === "api" && parts[1] === "dealers" && parts.length === 2 && method === "GET") return { dealers: listDealers(state) };
+  if (parts[0] === "api" && parts[1] === "escalations" && parts.length === 2 && method === "GET") return escalationQueue(state, dealerId);
+  if (parts[0] === "api" && parts[1] === "timelines" && parts.length === 2 && method === "GET") {
+    const scoped = state.enrollments.filter((enrollment) => !dealerId || enrollment.dealerId === dealerId);
+    return { timelines: scoped.map((enrollment) => ({ enrollment, events: state.timelines[enrollment.id] ?? [] })) };
+  }
+  if (parts[0] === "api" && parts[1] === "summary" && parts.length === 2 && method === "GET") return summary(state, dealerId);
+  if (parts[0] === "api" && parts[1] === "audit" && parts.length === 2 && method === "GET") return listAudit(state, url.searchParams);
+  if (parts[0] === "api" && parts[1] === "stream" && parts[2] === "tickets" && method === "POST") {
+    return { ticket: `mock-stream.${user.id}.${Date.now() + STREAM_TICKET_TTL_MS}`, expiresIn: STREAM_TICKET_TTL_MS / 1000 };
+  }
+  if (parts[0] === "api" && parts[1] === "cadences") return cadenceRoute(state, method, url, parts, body);
+  if (parts[0] !== "api" || parts[1] !== "enrollments") throw new MockHttpError(404, `No mock route for ${url.pathname}`);
+  const [, , id, action] = parts;
+
+  if (id === "lookup" && method === "GET") {
+    const params = url.searchParams;
+    return { matches: findDuplicates(state.enrollments, { borrowerId: params.get("borrowerId"), dealerId: params.get("dealerId"), phone: params.get("phone") }) };
+  }
+
+  if (!id) {
+    if (method === "GET") return listEnrollments(state, url.searchParams);
+    if (method === "POST") {
+      const payload = readCreatePayload(body);
+      const blocked = findDoNotContact(state.doNotContact, payload);
+      if (blocked) throw new MockHttpError(409, `Borrower is on the do-not-contact list: ${blocked.reason}`);
+      const open = findDuplicates(state.enrollments, payload).find((match) => isOpenEnrollment(match.enrollment.status));
+      if (open) throw new MockHttpError(409, `Borrower already has an open enrollment (${open.enrollment.id}, matched on ${open.matchedOn.join(" and ")})`);
+      const enrollment = insertEnrollment(state, payload, nowMs(state));
+      audit(state, "enrollment.created", enrollment.id, `Enrolled ${enrollment.borrowerId} at ${enrollment.dealerId}`, { enrollment });
+      advance(state);
+      return enrollment;
+    }
+  }
+
+  if (id && !action && method === "GET") return findEnrollment(state, id);
+  if (id && action === "timeline" && method === "GET") {
+    findEnrollment(state, id);
+    return { events: state.timelines[id] ?? [] };
+  }
+
+  if (id && method === "POST" && (action === "suppress" || action === "escalate" || action === "resume" || action === "de-escalate")) {
+    const enrollment = findEnrollment(state, id);
+    const reason = readReason(body);
+    if (!canPerform(enrollment.status, action)) throw new MockHttpError(409, `Cannot ${action} an enrollment in ${enrollment.status}`);
+    if (action === "suppress" || action === "escalate") exitWith(state, enrollment, action === "suppress" ? "SUPPRESSED" : "ESCALATED", nowMs(state), reason);
+    else reactivate(state, enrollment, action === "resume" ? "RESUMED" : "DE_ESCALATED", reason);
+    return enrollment;
+  }
+
+  if (id && method === "POST" && action === "assign") {
+    const enrollment = findEnrollment(state, id);
+    const assignedTo = body && typeof body === "object" ? (body as { assignedTo?: unknown }).assignedTo : undefined;
+    if (assignedTo !== null && typeof assignedTo !== "string") throw new MockHttpError(400, "assignedTo must be a string or null");
+    enrollment.assignedTo = assignedTo?.trim() || null;
+    enrollment.updatedAt = iso(nowMs(state));
+    audit(state, "enrollment.assigned", enrollment.id, enrollment.assignedTo ? `Assigned to ${enrollment.assignedTo}` : "Unassigned", { enrollment });
+    return enrollment;
+  }
+
+  if (id && method === "POST" && action === "payments") {
+    return recordPayment(state, findEnrollment(state, id), body);
+  }
+
+  if (id && method === "POST" && action === "resolve-escalation") {
+    return resolveEscalation(state, findEnrollment(state, id), body, user);
+  }
+
+  if (id && method === "POST" && action === "notes") {
+    return addNote(state, findEnrollment(state, id), body, user);
+  }
+
+  throw new MockHttpError(405, `${method} ${url.pathname} is not supported by the mock API`);
+}
+
+// Live stream: after every mutation the db is diffed against what subscribers last saw and the differences
+// are appended to an in-memory log, which is what lets a reconnecting client resume from its last event id.
+const STREAM_LOG_LIMIT = 500;
+const STREAM_TICK_MS = 5000;
+
+type StreamEntry = { id: string; update: LiveUpdate };
+
+const streamLog: StreamEntry[] = [];
+const streamListeners = new Set<(entry: StreamEntry) => void>();
+let streamSeq = 0;
+let streamTimer: ReturnType<typeof setInterval> | null = null;
+let published: { enrollments: Map<string, string>; eventCounts: Map<string, number> } | null = null;
+
+function publishChanges(state: MockDb) {
+  const baseline = published === null;
+  published ??= { enrollments: new Map(), eventCounts: new Map() };
+  const entries: StreamEntry[] = [];
+  const push = (update: LiveUpdate) => entries.push({ id: String(++streamSeq), update: structuredClone(update) });
+
+  state.enrollments.forEach((enrollment) => {
+    const events = state.timelines[enrollment.id] ?? [];
+    const seen = published!.eventCounts.get(enrollment.id) ?? 0;
+    if (!baseline) events.slice(seen).forEach((event) => push({ kind: "timeline_event", enrollmentId: enrollment.id, event }));
+    published!.eventCounts.set(enrollment.id, events.length);
+
+    const json = JSON.stringify(enrollment);
+    if (!baseline && published!.enrollments.get(enrollment.id) !== json) push({ kind: "enrollment_updated", enrollment });
+    published!.enrollments.set(enrollment.id, json);
+  });
+
+  streamLog.push(...entries);
+  streamLog.splice(0, Math.max(0, streamLog.length - STREAM_LOG_LIMIT));
+  entries.forEach((entry) => streamListeners.forEach((listener) => listener(entry)));
+}
+
+// The mock clock only moves the engine when something calls it, so keep it ticking while anyone listens.
+function streamTick() {
+  const state = loadDb();
+  advance(state);
+  recordSnapshot(state);
+  saveDb();
+  publishChanges(state);
+}
+
+export function subscribeMockStream(lastEventId: string | null, listener: (entry: StreamEntry) => void) {
+  publishChanges(loadDb());
+  if (lastEventId !== null) {
+    const resumeAfter = Number(lastEventId);
+    streamLog.filter((entry) => Number(entry.id) > resumeAfter).forEach(listener);
+  }
+  streamListeners.add(listener);
+  streamTimer ??= setInterval(streamTick, STREAM_TICK_MS);
+  return () => {
+    streamListeners.delete(listener);
+    if (!streamListeners.size && streamTimer) {
+      clearInterval(streamTimer);
+      streamTimer = null;
+    }
+  };
+}
+
+// Auth: a fixed set of demo users and stateless tokens of the form `mock-<kind>.<userId>.<expiresMs>`, so a
+// persisted session survives a page reload. Token lifetimes run on the wall clock, not the simulated one,
+// so fast-forwarding the mock clock doesn't sign anyone out. Logout has nothing to revoke.
+const MOCK_PASSWORD = "demo";
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 7 * DAY_MS;
+const STREAM_TICKET_TTL_MS = 60 * 1000;
+
+export const MOCK_USERS: AuthUser[] = [
+  { id: "usr_jgreen", name: "Jordan Green", email: "supervisor@carpay.test", role: "supervisor" },
+  { id: "usr_arivera", name: "Alex Rivera", email: "agent@carpay.test", role: "agent" },
+  { id: "usr_slee", name: "Sam Lee", email: "viewer@carpay.test", role: "viewer" },
+];
+
+function issueTokens(user: AuthUser) {
+  const now = Date.now();
+  return {
+    accessToken: `mock-access.${user.id}.${now + ACCESS_TOKEN_TTL_MS}`,
+    refreshToken: `mock-refresh.${user.id}.${now + REFRESH_TOKEN_TTL_MS}`,
+    expiresIn: ACCESS_TOKEN_TTL_MS / 1000,
+    user,
+  };
+}
+
+function tokenUser(token: string | null | undefined, kind: "access" | "refresh") {
+  const [prefix, userId, expires] = (token ?? "").split(".");
+  if (prefix !== `mock-${kind}` || Number(expires) < Date.now()) return null;
+  return MOCK_USERS.find((user) => user.id === userId) ?? null;
+}
+
+function authRoute(method: string, action: string | undefined, body: unknown) {
+  const value = (body && typeof body === "object" ? body : {}) as { email?: unknown; password?: unknown; refreshToken?: unknown };
+  if (method === "POST" && action === "login") {
+    const user = MOCK_USERS.find((u) => typeof value.email === "string" && u.email === value.email.trim().toLowerCase());
+    if (!user || value.password !== MOCK_PASSWORD) throw new MockHttpError(401, "Invalid email or password");
+    return issueTokens(user);
+  }
+  if (method === "POST" && action === "refresh") {
+    const user = tokenUser(typeof value.refreshToken === "string" ? value.refreshToken : null, "refresh");
+    if (!user) throw new MockHttpError(401, "Session expired");
+    return issueTokens(user);
+  }
+  if (method === "POST" && action === "logout") return {};
+  throw new MockHttpError(405, `${method} /api/auth/${action ?? ""} is not supported by the mock API`);
+}
+
+function requiredPermission(method: string, parts: string[]): Permission | null {
+  if (method !== "POST") return null;
+  if (parts[1] === "cadences") return "manage-cadences";
+  if (parts[1] === "do-not-contact") return parts[3] === "remove" ? "remove-do-not-contact" : "add-do-not-contact";
+  if (parts[1] !== "enrollments") return null;
+  const action = parts[3];
+  if (!parts[2]) return "enroll";
+  if (action === "suppress" || action === "escalate" || action === "resume" || action === "de-escalate") return action;
+  if (action === "payments") return "record-payment";
+  if (action === "notes") return "add-note";
+  if (action === "assign" || action === "resolve-escalation") return "work-escalations";
+  return null;
+}
+
+function authorize(method: string, url: URL, headers: HeadersInit | undefined) {
+  const header = new Headers(headers).get("Authorization");
+  const user = tokenUser(header?.replace(/^Bearer /, ""), "access");
+  if (!user) throw new MockHttpError(401, "Not signed in");
+  const permission = requiredPermission(method, url.pathname.split("/").filter(Boolean));
+  if (permission && !hasPermission(user.role, permission)) throw new MockHttpError(403, `The ${user.role} role can't ${permission.replace("-", " ")}`);
+  return user;
+}
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+// Responses to POSTs that carried an Idempotency-Key, replayed verbatim when the same key comes back.
+const idempotentResponses = new Map<string, { status: number; body: unknown }>();
+
+function latency(signal: AbortSignal | null | undefined) {
+  return new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(resolve, LATENCY_MS);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true },
+    );
+  });
+}
+
+export async function mockFetch(path: string, init?: RequestInit): Promise<Response> {
+  await latency(init?.signal);
+  const state = loadDb();
+  const method = (init?.method ?? "GET").toUpperCase();
+  const body = typeof init?.body === "string" ? JSON.parse(init.body) : undefined;
+  const idempotencyKey = method === "POST" ? new Headers(init?.headers).get("Idempotency-Key") : null;
+  const replay = idempotencyKey ? idempotentResponses.get(idempotencyKey) : undefined;
+  if (replay) return jsonResponse(replay.status, replay.body);
+
+  const respond = (status: number, result: unknown) => {
+    if (idempotencyKey) idempotentResponses.set(idempotencyKey, { status, body: result });
+    return jsonResponse(status, result);
+  };
+
+  try {
+    const url = new URL(path, "http://mock.local");
+    const parts = url.pathname.split("/").filter(Boolean);
+    if (parts[1] === "auth") return jsonResponse(200, authRoute(method, parts[2], body));
+    const user = authorize(method, url, init?.headers);
+
+    advance(state);
+    recordSnapshot(state);
+    const source = new Headers(init?.headers).get("X-Source-Screen") ?? undefined;
+    const result = attributedTo(userActor(user), source, () => route(state, method, url, body, user));
+    return respond(method === "POST" && path.split("?")[0] === "/api/enrollments" ? 201 : 200, structuredClone(result));
+  } catch (err) {
+    // Auth rejections happen before anything runs, so they aren't worth replaying.
+    if (err instanceof MockHttpError) return err.status === 401 || err.status === 403 ? jsonResponse(err.status, { message: err.message }) : respond(err.status, { message: err.message });
+    throw err;
+  } finally {
+    saveDb();
+    publishChanges(state);
+  }
+}
+
+export function getMockClockOffset() {
+  return loadDb().clockOffsetMs;
+}
+
+export function getMockNow() {
+  return new Date(nowMs(loadDb()));
+}
+
+export function subscribeMockClock(listener: () => void) {
+  clockListeners.add(listener);
+  return () => {
+    clockListeners.delete(listener);
+  };
+}
+
+export function advanceMockClock(ms: number) {
+  const state = loadDb();
+  // Close out the current day before jumping so skipped days still leave a snapshot behind.
+  recordSnapshot(state);
+  state.clockOffsetMs += ms;
+  advance(state);
+  recordSnapshot(state);
+  saveDb();
+  publishChanges(state);
+  clockListeners.forEach((listener) => listener());
+}
+
+export function resetMockApi() {
+  db = emptyDb();
+  seed(db);
+  saveDb();
+  // A reset is not a stream of changes; start the diff over from the fresh seed.
+  published = null;
+  publishChanges(db);
+  clockListeners.forEach((listener) => listener());
+}
@@ -0,0 +1,43 @@
+import type { Enrollment, EnrollmentStatus } from "../types/sequence";
+
+// Balance arithmetic shared by the detail page, the customer list and the mock backend. Amounts are
+// dollars; comparisons round to cents so float drift never leaves a phantom $0.00 balance open.
+
+const PAYABLE_STATUSES: EnrollmentStatus[] = ["ACTIVE", "ESCALATED"];
+
+function toCents(amount: number) {
+  return Math.round(amount * 100);
+}
+
+// Null when the enrollment has no amountDue to measure against.
+export function remainingBalance(enrollment: Pick<Enrollment, "amountDue" | "amountPaid">) {
+  if (enrollment.amountDue == null) return null;
+  return Math.max(0, toCents(enrollment.amountDue) - toCents(enrollment.amountPaid ?? 0)) / 100;
+}
+
+export function canRecordPayment(status: EnrollmentStatus) {
+  return PAYABLE_STATUSES.includes(status);
+}
+
+// Returns a message for an amount the API would reject, or null when it can be posted.
+export function paymentAmountError(enrollment: Pick<Enrollment, "amountDue" | "amountPaid">, amount: number) {
+  if (!Number.isFinite(amount) || toCents(amount) <= 0) return "Amount must be greater than zero";
+  const balance = remainingBalance(enrollment);
+  if (balance != null && toCents(amount) > toCents(balance)) return `Amount exceeds the remaining balance of $${balance.toFixed(2)}`;
+  return null;
+}
+
+export const NOTHING_TO_COLLECT = "The balance is already paid off; there's nothing left to collect";
+
+// Resolving an escalation as paid settles the remaining balance, which is posted when no amount is given.
+// With no amountDue on file the amount is required; anything short of the balance is a partial payment.
+// A balance already at zero leaves nothing to post.
+export function paidResolutionError(enrollment: Pick<Enrollment, "amountDue" | "amountPaid">, amount: number | undefined) {
+  const balance = remainingBalance(enrollment);
+  if (balance === 0) return NOTHING_TO_COLLECT;
+  if (amount === undefined) return balance == null ? "Enter the amount paid; there's no amount due on file" : null;
+  const error = paymentAmountError(enrollment, amount);
+  if (error) return error;
+  if (balance != null && toCents(amount) < toCents(balance)) return `Paid in full means the remaining $${balance.toFixed(2)}; record a partial payment instead`;
+  return null;
+}
@@ -0,0 +1,71 @@
+import type { CallCompletedEvent, Enrollment, EnrollmentTimeline, PaymentPostedEvent, TimelineEvent } from "../types/sequence";
+import { sortByTimestamp } from "./timeline";
+
+// Promise-to-pay tracking: every call that collected an intent date is a promise, judged against the
+// payments posted after that call and before the next promise, so one payment never keeps two promises.
+
+export type PromiseStatus = "pending" | "kept" | "broken";
+
+export interface PaymentPromise {
+  enrollment: Enrollment;
+  call: CallCompletedEvent;
+  promisedFor: string;
+  status: PromiseStatus;
+  // First payment posted after the promise was made and before the next one, whether or not it landed in time.
+  payment: PaymentPostedEvent | null;
+  deadline: string;
+}
+
+export interface PromiseSummary {
+  total: number;
+  pending: number;
+  kept: number;
+  broken: number;
+  keptRate: number;
+}
+
+// Card payments can take a day to post, so a promise isn't broken until the day after it falls due.
+const GRACE_DAYS = 1;
+
+function promiseDeadline(promisedFor: string) {
+  const deadline = new Date(`${promisedFor}T23:59:59.999`);
+  deadline.setDate(deadline.getDate() + GRACE_DAYS);
+  return deadline;
+}
+
+function promisesFor(enrollment: Enrollment, events: TimelineEvent[], now: Date): PaymentPromise[] {
+  const sorted = sortByTimestamp(events);
+  const payments = sorted.filter((event): event is PaymentPostedEvent => event.type === "PAYMENT_POSTED");
+  const calls = sorted.filter((event): event is CallCompletedEvent => event.type === "CALL_COMPLETED" && !!event.intentDate);
+
+  return calls.map((call, index) => {
+    const promisedFor = call.intentDate!.slice(0, 10);
+    const deadline = promiseDeadline(promisedFor);
+    const from = +new Date(call.endedAt);
+    const until = index + 1 < calls.length ? +new Date(calls[index + 1].endedAt) : Infinity;
+    const payment = payments.find((p) => +new Date(p.postedAt) >= from && +new Date(p.postedAt) < until) ?? null;
+    let status: PromiseStatus;
+    if (payment && +new Date(payment.postedAt) <= +deadline) status = "kept";
+    else if (+now <= +deadline) status = "pending";
+    else status = "broken";
+    return { enrollment, call, promisedFor, status, payment, deadline: deadline.toISOString() };
+  });
+}
+
+export function buildPromises(timelines: EnrollmentTimeline[], now: Date) {
+  return timelines
+    .flatMap((timeline) => promisesFor(timeline.enrollment, timeline.events, now))
+    .sort((a, b) => a.promisedFor.localeCompare(b.promisedFor) || a.enrollment.id.localeCompare(b.enrollment.id));
+}
+
+export function summarizePromises(promises: PaymentPromise[]): PromiseSummary {
+  const count = (status: PromiseStatus) => promises.filter((p) => p.status === status).length;
+  const kept = count("kept");
+  const broken = count("broken");
+  return { total: promises.length, pending: count("pending"), kept, broken, keptRate: kept + broken ? kept / (kept + broken) : 0 };
+}
+
+// Only a broken promise on an enrollment still in the sequence can be escalated from the tracker.
+export function canEscalatePromise(promise: PaymentPromise) {
+  return promise.status === "broken" && promise.enrollment.status === "ACTIVE";
+}
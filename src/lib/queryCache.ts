@@ -0,0 +1,279 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useSyncExternalStore } from "react";
+
+// A small shared cache for API reads, keyed by endpoint and parameters. Reads are stale-while-revalidate:
+// cached data renders immediately and is refetched in the background once it is older than `staleMs`.
+// Concurrent reads of the same key share one request. Mutations declare what they touch (see `mutate`)
+// instead of each page refreshing itself.
+
+export type QueryKey = ReadonlyArray<unknown>;
+
+export interface QuerySnapshot<T> {
+  data: T | undefined;
+  error: unknown;
+  fetching: boolean;
+}
+
+// Applied to every cached entry whose key starts with `key`; the full key is passed so list updates
+// can look at their own parameters.
+export interface QueryUpdate {
+  key: QueryKey;
+  update: (data: unknown, key: QueryKey) => unknown;
+}
+
+export interface MutationEffects<T> {
+  // Written before the request is sent and rolled back if it fails.
+  optimistic?: QueryUpdate[];
+  // Written with the server's response.
+  apply?: (result: T) => QueryUpdate[];
+  // Refetched once the mutation settles, whichever way it went.
+  invalidates?: QueryKey[];
+}
+
+type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+interface Entry {
+  key: QueryKey;
+  parts: string[];
+  snapshot: QuerySnapshot<unknown>;
+  updatedAt: number;
+  // One per component reading the entry; they all send the same request, so the latest to mount is used.
+  fetchers: Set<{ current: Fetcher<unknown> }>;
+  inflight: { promise: Promise<unknown>; controller: AbortController } | null;
+  subscribers: number;
+  listeners: Set<() => void>;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const DEFAULT_STALE_MS = 10_000;
+// Entries nobody has read for this long are dropped, so one-off search keys don't accumulate.
+const GC_MS = 5 * 60_000;
+
+const EMPTY: QuerySnapshot<never> = { data: undefined, error: null, fetching: false };
+
+const entries = new Map<string, Entry>();
+
+// Object keys are sorted so `{ a, b }` and `{ b, a }` hash the same; undefined fields drop out.
+function hashPart(part: unknown): string {
+  return JSON.stringify(part, (_, value: unknown) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value,
+  );
+}
+
+function hashKey(key: QueryKey) {
+  return key.map(hashPart).join("|");
+}
+
+function matches(entry: Entry, prefix: QueryKey) {
+  return prefix.every((part, index) => entry.parts[index] === hashPart(part));
+}
+
+// Drops the entry after GC_MS unless someone starts reading it in the meantime.
+function scheduleGc(entry: Entry) {
+  entry.gcTimer = setTimeout(() => {
+    if (!entry.subscribers && entries.get(hashKey(entry.key)) === entry) entries.delete(hashKey(entry.key));
+  }, GC_MS);
+}
+
+// New entries start on the GC clock, so ones written but never read (e.g. by `setQueryData`) don't linger.
+function entryFor(key: QueryKey) {
+  const hash = hashKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = {
+      key,
+      parts: key.map(hashPart),
+      snapshot: EMPTY,
+      updatedAt: 0,
+      fetchers: new Set(),
+      inflight: null,
+      subscribers: 0,
+      listeners: new Set(),
+      gcTimer: null,
+    };
+    entries.set(hash, entry);
+    scheduleGc(entry);
+  }
+  return entry;
+}
+
+function publish(entry: Entry, patch: Partial<QuerySnapshot<unknown>>) {
+  entry.snapshot = { ...entry.snapshot, ...patch };
+  entry.listeners.forEach((listener) => listener());
+}
+
+function cancel(entry: Entry) {
+  if (!entry.inflight) return;
+  entry.inflight.controller.abort();
+  entry.inflight = null;
+  publish(entry, { fetching: false });
+}
+
+// Starts a request for the entry unless one is already running. `force` replaces a running request,
+// for when it may have been sent before the data changed.
+function fetchEntry(entry: Entry, force = false) {
+  if (entry.inflight && !force) return entry.inflight.promise;
+  const fetcher = Array.from(entry.fetchers).at(-1)?.current;
+  if (!fetcher) return Promise.resolve(entry.snapshot.data);
+  cancel(entry);
+
+  const controller = new AbortController();
+  const promise = fetcher(controller.signal).then(
+    (data) => {
+      // Only the latest request for a key may write to it.
+      if (entry.inflight?.controller !== controller) return data;
+      entry.inflight = null;
+      entry.updatedAt = Date.now();
+      publish(entry, { data, error: null, fetching: false });
+      return data;
+    },
+    (err: unknown) => {
+      if (entry.inflight?.controller !== controller) throw err;
+      entry.inflight = null;
+      publish(entry, { error: err, fetching: false });
+      throw err;
+    },
+  );
+  // Background revalidations have no caller to report to; the error lands in the snapshot instead.
+  promise.catch(() => undefined);
+  entry.inflight = { promise, controller };
+  publish(entry, { fetching: true });
+  return promise;
+}
+
+export function getQueryData<T>(key: QueryKey) {
+  return entries.get(hashKey(key))?.snapshot.data as T | undefined;
+}
+
+export function setQueryData<T>(key: QueryKey, update: (data: T | undefined) => T | undefined) {
+  const entry = entryFor(key);
+  publish(entry, { data: update(entry.snapshot.data as T | undefined) });
+}
+
+export function queryUpdate<T>(key: QueryKey, update: (data: T, key: QueryKey) => T): QueryUpdate {
+  return { key, update: (data, fullKey) => update(data as T, fullKey) };
+}
+
+// Applies the updates to every cached entry that has data, returning what was there before.
+function applyUpdates(updates: QueryUpdate[]) {
+  const previous = new Map<Entry, unknown>();
+  updates.forEach(({ key, update }) => {
+    entries.forEach((entry) => {
+      if (entry.snapshot.data === undefined || !matches(entry, key)) return;
+      if (!previous.has(entry)) previous.set(entry, entry.snapshot.data);
+      publish(entry, { data: update(entry.snapshot.data, entry.key) });
+    });
+  });
+  return previous;
+}
+
+export function updateQueries(updates: QueryUpdate[]) {
+  applyUpdates(updates);
+}
+
+// Marks matching entries stale and refetches the ones currently on screen; the rest refetch on next read.
+export function invalidateQueries(prefix: QueryKey) {
+  entries.forEach((entry) => {
+    if (!matches(entry, prefix)) return;
+    entry.updatedAt = 0;
+    if (entry.subscribers) void fetchEntry(entry, true);
+    else cancel(entry);
+  });
+}
+
+export async function mutate<T>(run: () => Promise<T>, effects: MutationEffects<T>): Promise<T> {
+  const optimistic = applyUpdates(effects.optimistic ?? []);
+  // A read already in flight was sent before this change and would overwrite the optimistic data.
+  optimistic.forEach((_, entry) => cancel(entry));
+  try {
+    const result = await run();
+    applyUpdates(effects.apply?.(result) ?? []);
+    return result;
+  } catch (err) {
+    optimistic.forEach((data, entry) => publish(entry, { data }));
+    throw err;
+  } finally {
+    effects.invalidates?.forEach(invalidateQueries);
+  }
+}
+
+// Drops all cached data, e.g. when the signed-in user changes; views on screen reload from scratch.
+export function resetQueryCache() {
+  entries.forEach((entry) => {
+    cancel(entry);
+    entry.updatedAt = 0;
+    publish(entry, { data: undefined, error: null });
+    if (entry.subscribers) void fetchEntry(entry);
+  });
+}
+
+function subscribe(entry: Entry, listener: () => void) {
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
+
+function retain(entry: Entry) {
+  if (entry.gcTimer) clearTimeout(entry.gcTimer);
+  entry.gcTimer = null;
+  entry.subscribers += 1;
+  return () => {
+    entry.subscribers -= 1;
+    if (entry.subscribers) return;
+    // Nobody is waiting on the response any more.
+    cancel(entry);
+    scheduleGc(entry);
+  };
+}
+
+// Rendering only reads the cache; entries are created and handed a fetcher once the component commits.
+export function useQuery<T>(key: QueryKey | null, fetcher: Fetcher<T>, options: { staleMs?: number } = {}) {
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const hash = key ? hashKey(key) : null;
+  const keyRef = useRef(key);
+  const fetcherRef = useRef(fetcher as Fetcher<unknown>);
+  useLayoutEffect(() => {
+    keyRef.current = key;
+    fetcherRef.current = fetcher as Fetcher<unknown>;
+  });
+  // Registered before any passive effect can fetch, and unregistered before a new key's, so an entry
+  // never runs another key's fetcher.
+  useLayoutEffect(() => {
+    if (!hash) return;
+    const entry = entryFor(keyRef.current!);
+    entry.fetchers.add(fetcherRef);
+    return () => {
+      entry.fetchers.delete(fetcherRef);
+    };
+  }, [hash]);
+
+  const subscribeToKey = useCallback(
+    (listener: () => void) => (hash ? subscribe(entryFor(keyRef.current!), listener) : () => undefined),
+    [hash],
+  );
+  const snapshot = useSyncExternalStore(subscribeToKey, () => ((hash ? entries.get(hash)?.snapshot : undefined) ?? EMPTY) as QuerySnapshot<T>);
+
+  useEffect(() => {
+    if (!hash) return;
+    const entry = entryFor(keyRef.current!);
+    const release = retain(entry);
+    if (entry.snapshot.data === undefined || Date.now() - entry.updatedAt > staleMs) void fetchEntry(entry);
+    return release;
+  }, [hash, staleMs]);
+
+  const refresh = () => {
+    const entry = hash ? entries.get(hash) : undefined;
+    return entry ? fetchEntry(entry, true).then(() => undefined, () => undefined) : Promise.resolve();
+  };
+
+  return {
+    data: snapshot.data,
+    error: snapshot.error,
+    // Only the first load blocks the view; revalidation keeps showing what's cached.
+    loading: snapshot.data === undefined && snapshot.error == null,
+    fetching: snapshot.fetching,
+    refresh,
+  };
+}
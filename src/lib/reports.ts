@@ -0,0 +1,122 @@
+import type { CallOutcome, EnrollmentTimeline, TimelineEvent, TouchSentEvent, TransferReason } from "../types/sequence";
+import { eventDay, eventTimestamp, sortByTimestamp } from "./timeline";
+
+export interface ReportFilters {
+  from: string | null;
+  to: string | null;
+  dealerId: string | null;
+}
+
+export interface PaidExitDayRow {
+  day: number;
+  reached: number;
+  paid: number;
+  rate: number;
+}
+
+export interface DealerEscalationRow {
+  dealerId: string;
+  enrollments: number;
+  escalated: number;
+  rate: number;
+}
+
+export interface TimelineReport {
+  enrollments: number;
+  calls: number;
+  callOutcomes: Array<{ key: CallOutcome; count: number }>;
+  transferReasons: Array<{ key: TransferReason; count: number }>;
+  paidExitsByDay: PaidExitDayRow[];
+  touchesByChannel: Array<{ key: TouchSentEvent["channel"]; count: number }>;
+  escalationsByDealer: DealerEscalationRow[];
+}
+
+function countBy<T extends string>(values: T[]) {
+  const counts = new Map<T, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts.entries())
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+// `from`/`to` are yyyy-mm-dd values from date inputs and are inclusive local days.
+export function inDateRange(timestamp: string, filters: Pick<ReportFilters, "from" | "to">) {
+  const at = +new Date(timestamp);
+  if (filters.from && at < +new Date(`${filters.from}T00:00:00`)) return false;
+  if (filters.to && at > +new Date(`${filters.to}T23:59:59.999`)) return false;
+  return true;
+}
+
+function inRange(event: TimelineEvent, filters: ReportFilters) {
+  return inDateRange(eventTimestamp(event), filters);
+}
+
+// The sequence day a payment landed on: the last touched day before it, else the enrollment's currentDay.
+function paymentDay(events: TimelineEvent[], paymentIndex: number, currentDay: number) {
+  for (let i = paymentIndex - 1; i >= 0; i--) {
+    const day = eventDay(events[i]);
+    if (day != null) return day;
+  }
+  return currentDay;
+}
+
+export function buildTimelineReport(timelines: EnrollmentTimeline[], filters: ReportFilters): TimelineReport {
+  const scoped = timelines.filter((t) => !filters.dealerId || t.enrollment.dealerId === filters.dealerId);
+  const outcomes: CallOutcome[] = [];
+  const transfers: TransferReason[] = [];
+  const channels: Array<TouchSentEvent["channel"]> = [];
+  const reachedByDay = new Map<number, number>();
+  const paidByDay = new Map<number, number>();
+  const dealers = new Map<string, { enrollments: number; escalated: number }>();
+  let enrollments = 0;
+
+  scoped.forEach(({ enrollment, events }) => {
+    const sorted = sortByTimestamp(events);
+    const visible = sorted.filter((event) => inRange(event, filters));
+    if (!visible.length) return;
+    enrollments += 1;
+
+    const dealer = dealers.get(enrollment.dealerId) ?? { enrollments: 0, escalated: 0 };
+    dealer.enrollments += 1;
+    if (visible.some((event) => event.type === "ESCALATED")) dealer.escalated += 1;
+    dealers.set(enrollment.dealerId, dealer);
+
+    let maxDay = -1;
+    sorted.forEach((event, index) => {
+      const day = eventDay(event);
+      if (day != null) maxDay = Math.max(maxDay, day);
+      if (!inRange(event, filters)) return;
+
+      if (event.type === "TOUCH_SENT") channels.push(event.channel);
+      if (event.type === "CALL_COMPLETED") {
+        outcomes.push(event.callOutcome);
+        if (event.transferReason) transfers.push(event.transferReason);
+      }
+      if (event.type === "PAYMENT_POSTED") {
+        const day = paymentDay(sorted, index, enrollment.currentDay);
+        paidByDay.set(day, (paidByDay.get(day) ?? 0) + 1);
+      }
+    });
+    for (let day = 0; day <= Math.max(maxDay, enrollment.currentDay); day++) {
+      reachedByDay.set(day, (reachedByDay.get(day) ?? 0) + 1);
+    }
+  });
+
+  const days = Array.from(new Set([...reachedByDay.keys(), ...paidByDay.keys()])).sort((a, b) => a - b);
+
+  return {
+    enrollments,
+    calls: outcomes.length,
+    callOutcomes: countBy(outcomes),
+    transferReasons: countBy(transfers),
+    touchesByChannel: countBy(channels),
+    paidExitsByDay: days.map((day) => {
+      const reached = reachedByDay.get(day) ?? 0;
+      const paid = paidByDay.get(day) ?? 0;
+      return { day, reached, paid, rate: reached ? paid / reached : 0 };
+    }),
+    escalationsByDealer: Array.from(dealers.entries())
+      .map(([dealerId, row]) => ({ dealerId, ...row, rate: row.enrollments ? row.escalated / row.enrollments : 0 }))
+      .sort((a, b) => b.rate - a.rate),
+  };
+}
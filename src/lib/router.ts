@@ -0,0 +1,63 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+
+// Minimal history-API router: the URL is the source of truth for the current page and its filters.
+
+const NAVIGATE_EVENT = "carpay:navigate";
+
+type HistoryState = { internal?: boolean } | null;
+
+function subscribe(listener: () => void) {
+  window.addEventListener("popstate", listener);
+  window.addEventListener(NAVIGATE_EVENT, listener);
+  return () => {
+    window.removeEventListener("popstate", listener);
+    window.removeEventListener(NAVIGATE_EVENT, listener);
+  };
+}
+
+export function navigate(to: string, options?: { replace?: boolean }) {
+  const state: HistoryState = { internal: true };
+  if (options?.replace) window.history.replaceState(state, "", to);
+  else window.history.pushState(state, "", to);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+// Goes back when the previous entry belongs to this app, otherwise to `fallback` (e.g. a pasted deep link).
+export function navigateBack(fallback: string) {
+  if ((window.history.state as HistoryState)?.internal) window.history.back();
+  else navigate(fallback);
+}
+
+export function usePathname() {
+  return useSyncExternalStore(subscribe, () => window.location.pathname);
+}
+
+export function useSearchParams() {
+  const search = useSyncExternalStore(subscribe, () => window.location.search);
+  const params = useMemo(() => new URLSearchParams(search), [search]);
+
+  // Filter edits replace the current entry so typing in a search box doesn't flood the back stack.
+  const update = useCallback((patch: Record<string, string | null | undefined>) => {
+    const next = new URLSearchParams(window.location.search);
+    Object.entries(patch).forEach(([key, value]) => {
+      if (value == null || value === "") next.delete(key);
+      else next.set(key, value);
+    });
+    const query = next.toString();
+    navigate(`${window.location.pathname}${query ? `?${query}` : ""}`, { replace: true });
+  }, []);
+
+  return [params, update] as const;
+}
+
+// The screen a change is made from, for the audit log: the page's first path segment, with enrollment
+// detail pages reported separately from the customer list.
+export function currentScreen() {
+  const [section] = window.location.pathname.split("/").filter(Boolean);
+  if (!section) return "dashboard";
+  return section === "enrollments" ? "enrollment-detail" : section;
+}
+
+export function enrollmentPath(id: string) {
+  return `/enrollments/${encodeURIComponent(id)}`;
+}
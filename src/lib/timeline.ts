@@ -0,0 +1,167 @@
+import type { CadenceStep, CallCompletedEvent, TimelineEvent, TouchChannel, TouchSentEvent } from "../types/sequence";
+
+export function eventTimestamp(event: TimelineEvent) {
+  if (event.type === "TOUCH_SENT") return event.sentAt;
+  if (event.type === "CALL_COMPLETED") return event.endedAt;
+  if (event.type === "PAYMENT_POSTED") return event.postedAt;
+  return event.at;
+}
+
+// Events carry no id; type plus timestamp (and channel, for touches sent together) identifies one across
+// refetches and stream replays.
+export function eventKey(event: TimelineEvent) {
+  const key = `${event.type}:${eventTimestamp(event)}`;
+  return event.type === "TOUCH_SENT" ? `${key}:${event.channel}` : key;
+}
+
+export function eventDay(event: TimelineEvent) {
+  if (event.type === "TOUCH_SENT" || event.type === "CALL_COMPLETED") return event.day;
+  return null;
+}
+
+export function sortByTimestamp(events: TimelineEvent[]) {
+  return [...events].sort((a, b) => +new Date(eventTimestamp(a)) - +new Date(eventTimestamp(b)));
+}
+
+export function isCadenceRestart(event: TimelineEvent) {
+  return (event.type === "ESCALATION_RESOLVED" || event.type === "RESUMED" || event.type === "DE_ESCALATED") && !!event.restartedCadence;
+}
+
+// Events since the cadence last started over from Day 0. Day numbers repeat across runs, so the
+// day-by-day views only look at the current one.
+export function currentRun(events: TimelineEvent[]) {
+  const sorted = sortByTimestamp(events);
+  const restarts = sorted.map(isCadenceRestart);
+  return sorted.slice(restarts.lastIndexOf(true) + 1);
+}
+
+// Coarser than the event type so the filter chips stay few; every status transition is one group.
+export type TimelineEventGroup = "touch" | "call" | "payment" | "status" | "note";
+
+export const TIMELINE_EVENT_GROUPS: TimelineEventGroup[] = ["touch", "call", "payment", "status", "note"];
+
+export const TIMELINE_CHANNELS: TouchChannel[] = ["sms", "email", "push", "call"];
+
+export interface TimelineFilters {
+  groups: TimelineEventGroup[];
+  channels: TouchChannel[];
+  query: string;
+}
+
+export function eventGroup(event: TimelineEvent): TimelineEventGroup {
+  if (event.type === "TOUCH_SENT") return "touch";
+  if (event.type === "CALL_COMPLETED") return "call";
+  if (event.type === "PAYMENT_POSTED") return "payment";
+  if (event.type === "AGENT_NOTE") return "note";
+  return "status";
+}
+
+export function eventChannel(event: TimelineEvent): TouchChannel | null {
+  if (event.type === "TOUCH_SENT") return event.channel;
+  if (event.type === "CALL_COMPLETED") return "call";
+  return null;
+}
+
+// The free text an agent might search for: notes, reasons and the identifiers shown next to them.
+function eventSearchText(event: TimelineEvent) {
+  switch (event.type) {
+    case "TOUCH_SENT":
+      return [event.templateId];
+    case "CALL_COMPLETED":
+      return [event.notes, event.callOutcome, event.transferReason];
+    case "PAYMENT_POSTED":
+      return [event.reference, event.method];
+    case "ESCALATION_RESOLVED":
+      return [event.reason, event.resolution, event.resolvedBy];
+    case "AGENT_NOTE":
+      return [event.body, event.kind, event.author];
+    default:
+      return [event.reason];
+  }
+}
+
+// Empty lists mean "any". The channel filter only narrows events that have a channel, so picking SMS
+// still shows payments and status changes unless the type chips exclude them too.
+export function filterTimeline(events: TimelineEvent[], filters: TimelineFilters) {
+  const needle = filters.query.trim().toLowerCase();
+  return events.filter((event) => {
+    if (filters.groups.length && !filters.groups.includes(eventGroup(event))) return false;
+    const channel = eventChannel(event);
+    if (filters.channels.length && channel && !filters.channels.includes(channel)) return false;
+    if (needle && !eventSearchText(event).some((text) => text?.toLowerCase().replace(/_/g, " ").includes(needle.replace(/_/g, " ")))) return false;
+    return true;
+  });
+}
+
+function parseList<T extends string>(value: string | null, allowed: T[]) {
+  return (value ?? "").split(",").filter((item): item is T => allowed.includes(item as T));
+}
+
+export function parseTimelineFilters(params: URLSearchParams): TimelineFilters {
+  return {
+    groups: parseList(params.get("types"), TIMELINE_EVENT_GROUPS),
+    channels: parseList(params.get("channels"), TIMELINE_CHANNELS),
+    query: params.get("q") ?? "",
+  };
+}
+
+export function timelineFilterParams(filters: TimelineFilters) {
+  return { types: filters.groups.join(","), channels: filters.channels.join(","), q: filters.query };
+}
+
+export function hasTimelineFilters(filters: TimelineFilters) {
+  return filters.groups.length > 0 || filters.channels.length > 0 || filters.query.trim().length > 0;
+}
+
+export type DayTrackerState = "done" | "current" | "missed" | "upcoming" | "not_reached";
+
+export interface DayTrackerCell {
+  day: number;
+  planned: CadenceStep | null;
+  sent: TouchSentEvent[];
+  calls: CallCompletedEvent[];
+  // Exits and payments carry no day of their own; they land on the last day touched before them.
+  payments: number;
+  escalated: boolean;
+  suppressed: boolean;
+  state: DayTrackerState;
+}
+
+// One cell per sequence day from Day 0 through the escalation day, for the current run of the cadence.
+export function buildDayTracker(
+  steps: CadenceStep[],
+  escalationDay: number,
+  enrollment: { status: string; currentDay: number },
+  allEvents: TimelineEvent[],
+): DayTrackerCell[] {
+  const events = currentRun(allEvents);
+  const cells: DayTrackerCell[] = Array.from({ length: escalationDay + 1 }, (_, day) => {
+    const planned = steps.find((step) => step.day === day) ?? null;
+    const sent = events.filter((event): event is TouchSentEvent => event.type === "TOUCH_SENT" && event.day === day);
+    const calls = events.filter((event): event is CallCompletedEvent => event.type === "CALL_COMPLETED" && event.day === day);
+    let state: DayTrackerState;
+    if (day === enrollment.currentDay && enrollment.status === "ACTIVE") state = "current";
+    else if (day > enrollment.currentDay) state = enrollment.status === "ACTIVE" ? "upcoming" : "not_reached";
+    else if (planned && !sent.length) state = "missed";
+    else state = "done";
+    return { day, planned, sent, calls, payments: 0, escalated: false, suppressed: false, state };
+  });
+
+  const dayStarts = sortByTimestamp(events).flatMap((event) => {
+    const day = eventDay(event);
+    return day == null ? [] : [{ day, at: +new Date(eventTimestamp(event)) }];
+  });
+  const dayOf = (event: TimelineEvent) => {
+    const at = +new Date(eventTimestamp(event));
+    const day = [...dayStarts].reverse().find((start) => start.at <= at)?.day ?? 0;
+    return Math.min(day, escalationDay);
+  };
+
+  events.forEach((event) => {
+    if (event.type === "PAYMENT_POSTED") cells[dayOf(event)].payments += 1;
+    // The server's automatic escalation fires at the start of the escalation day, before anything is sent.
+    else if (event.type === "ESCALATED") cells[event.reason.startsWith(`day_${escalationDay}`) ? escalationDay : dayOf(event)].escalated = true;
+    else if (event.type === "SUPPRESSED") cells[dayOf(event)].suppressed = true;
+  });
+  return cells;
+}
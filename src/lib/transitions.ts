@@ -0,0 +1,21 @@
+import type { EnrollmentStatus } from "../types/sequence";
+
+// Which manual actions each status allows. The mock backend enforces the same table, so the detail page
+// never offers an action the API would reject with 409. PAID_EXIT is terminal.
+
+export type EnrollmentAction = "suppress" | "escalate" | "resume" | "de-escalate";
+
+const TRANSITIONS: Record<EnrollmentStatus, Partial<Record<EnrollmentAction, EnrollmentStatus>>> = {
+  ACTIVE: { suppress: "SUPPRESSED", escalate: "ESCALATED" },
+  ESCALATED: { suppress: "SUPPRESSED", "de-escalate": "ACTIVE" },
+  SUPPRESSED: { resume: "ACTIVE" },
+  PAID_EXIT: {},
+};
+
+export function allowedActions(status: EnrollmentStatus) {
+  return Object.keys(TRANSITIONS[status]) as EnrollmentAction[];
+}
+
+export function canPerform(status: EnrollmentStatus, action: EnrollmentAction) {
+  return TRANSITIONS[status][action] !== undefined;
+}
@@ -0,0 +1,409 @@
+import type {
+  ActorType,
+  AgentActivityKind,
+  AuditAction,
+  CallOutcome,
+  CallSpeaker,
+  DuplicateField,
+  EnrollmentStatus,
+  EscalationResolution,
+  IdentityVerification,
+  PaymentMethod,
+  Role,
+  TimelineEvent,
+  TouchChannel,
+  TransferReason,
+  ValidationIssue,
+} from "../types/sequence";
+
+// Runtime checks for API payloads. Validators return a list of issues (empty when valid) rather than
+// throwing, so callers can decide whether a bad record fails the request or is quarantined.
+
+type Validator = (value: unknown, path: string) => ValidationIssue[];
+
+// Records keyed by the union make the compiler flag any member missing from the runtime list.
+const ENROLLMENT_STATUSES: Record<EnrollmentStatus, true> = { ACTIVE: true, PAID_EXIT: true, ESCALATED: true, SUPPRESSED: true };
+
+const TOUCH_CHANNELS: Record<TouchChannel, true> = { sms: true, email: true, push: true, call: true };
+
+const CALL_OUTCOMES: Record<CallOutcome, true> = {
+  payment_initiated_sms: true,
+  intent_date_collected: true,
+  follow_up_requested: true,
+  stated_payment_already_made: true,
+  opt_out_requested: true,
+  transfer_to_live_agent: true,
+  wrong_number: true,
+  unclear_follow_up_scheduled: true,
+  language_handoff: true,
+  unanswered: true,
+  id_failed: true,
+};
+
+const TRANSFER_REASONS: Record<TransferReason, true> = {
+  make_payment: true,
+  sensitive_case: true,
+  borrower_requested_live_agent: true,
+  vague_long_term_response: true,
+  language_escalation: true,
+  failed_identity_verification: true,
+  undefined_transfer: true,
+};
+
+const CALL_SPEAKERS: Record<CallSpeaker, true> = { agent: true, borrower: true };
+
+const IDENTITY_VERIFICATIONS: Record<IdentityVerification, true> = { verified: true, failed: true, not_attempted: true };
+
+const PAYMENT_METHODS: Record<PaymentMethod, true> = { card: true, ach: true, cash: true, check: true, other: true };
+
+const ROLES: Record<Role, true> = { viewer: true, agent: true, supervisor: true };
+
+const ESCALATION_RESOLUTIONS: Record<EscalationResolution, true> = { paid: true, returned_to_active: true, suppressed: true };
+
+const TIMELINE_EVENT_TYPES: Record<TimelineEvent["type"], true> = {
+  TOUCH_SENT: true,
+  CALL_COMPLETED: true,
+  PAYMENT_POSTED: true,
+  ESCALATED: true,
+  SUPPRESSED: true,
+  ESCALATION_RESOLVED: true,
+  RESUMED: true,
+  DE_ESCALATED: true,
+  AGENT_NOTE: true,
+};
+
+const ACTOR_TYPES: Record<ActorType, true> = { user: true, system: true, ai_agent: true };
+
+const AUDIT_ACTIONS: Record<AuditAction, true> = {
+  "enrollment.created": true,
+  "enrollment.assigned": true,
+  "enrollment.suppressed": true,
+  "enrollment.escalated": true,
+  "enrollment.resumed": true,
+  "enrollment.de_escalated": true,
+  "escalation.resolved": true,
+  "payment.posted": true,
+  "note.added": true,
+  "cadence.saved": true,
+  "cadence.assigned": true,
+  "do_not_contact.added": true,
+  "do_not_contact.removed": true,
+};
+
+const AGENT_ACTIVITY_KINDS: Record<AgentActivityKind, true> = { note: true, inbound_call: true, dealer_conversation: true, borrower_email: true };
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function fields(value: Record<string, unknown>, path: string, issues: ValidationIssue[]) {
+  const fail = (key: string, message: string) => issues.push({ path: `${path}.${key}`, message });
+  // null and undefined both count as absent; required fields must carry a value.
+  const present = (key: string, optional: boolean) => {
+    if (value[key] !== undefined && value[key] !== null) return true;
+    if (!optional) fail(key, "is required");
+    return false;
+  };
+
+  return {
+    string(key: string, optional = false) {
+      if (present(key, optional) && typeof value[key] !== "string") fail(key, "must be a string");
+    },
+    date(key: string, optional = false) {
+      if (!present(key, optional)) return;
+      if (typeof value[key] !== "string" || Number.isNaN(Date.parse(value[key] as string))) fail(key, "must be an ISO date string");
+    },
+    number(key: string, optional = false) {
+      if (present(key, optional) && (typeof value[key] !== "number" || !Number.isFinite(value[key]))) fail(key, "must be a finite number");
+    },
+    boolean(key: string, optional = false) {
+      if (present(key, optional) && typeof value[key] !== "boolean") fail(key, "must be a boolean");
+    },
+    integer(key: string, optional = false) {
+      if (present(key, optional) && !Number.isInteger(value[key])) fail(key, "must be an integer");
+    },
+    oneOf(key: string, allowed: Record<string, true>, optional = false) {
+      if (present(key, optional) && !(typeof value[key] === "string" && allowed[value[key] as string])) {
+        fail(key, `must be one of ${Object.keys(allowed).join(", ")}`);
+      }
+    },
+    object(key: string, validate: Validator, optional = false) {
+      if (present(key, optional)) issues.push(...validate(value[key], `${path}.${key}`));
+    },
+    list(key: string, validate: Validator, optional = false) {
+      if (!present(key, optional)) return;
+      const items = value[key];
+      if (!Array.isArray(items)) fail(key, "must be an array");
+      else items.forEach((item, index) => issues.push(...validate(item, `${path}.${key}[${index}]`)));
+    },
+  };
+}
+
+export const validateEnrollment: Validator = (value, path) => {
+  if (!isRecord(value)) return [{ path, message: "must be an object" }];
+  const issues: ValidationIssue[] = [];
+  const f = fields(value, path, issues);
+  f.string("id");
+  f.string("borrowerId");
+  f.string("dealerId");
+  f.oneOf("status", ENROLLMENT_STATUSES);
+  f.integer("currentDay");
+  f.date("nextScheduledAt");
+  f.date("createdAt");
+  f.date("updatedAt");
+  f.date("paymentPostedAt", true);
+  f.string("suppressedReason", true);
+  f.string("escalationReason", true);
+  f.string("phone", true);
+  f.string("email", true);
+  f.string("vehicle", true);
+  f.string("addressState", true);
+  f.number("amountDue", true);
+  f.number("amountPaid", true);
+  f.string("assignedTo", true);
+  f.string("cadenceId", true);
+  f.integer("cadenceVersion", true);
+  return issues;
+};
+
+const validateActor: Validator = (value, path) => {
+  if (!isRecord(value)) return [{ path, message: "must be an object" }];
+  const issues: ValidationIssue[] = [];
+  const f = fields(value, path, issues);
+  f.oneOf("type", ACTOR_TYPES);
+  f.string("id");
+  f.string("name");
+  f.oneOf("role", ROLES, true);
+  return issues;
+};
+
+export const validateAuditEntry: Validator = (value, path) => {
+  if (!isRecord(value)) return [{ path, message: "must be an object" }];
+  const issues: ValidationIssue[] = [];
+  const f = fields(value, path, issues);
+  f.string("id");
+  f.date("at");
+  f.object("actor", validateActor);
+  f.string("source", true);
+  f.oneOf("action", AUDIT_ACTIONS);
+  f.string("targetId");
+  f.string("enrollmentId", true);
+  f.string("borrowerId", true);
+  f.string("dealerId", true);
+  f.string("detail");
+  return issues;
+};
+
+const validateTranscriptTurn: Validator = (value, path) => {
+  if (!isRecord(value)) return [{ path, message: "must be an object" }];
+  const issues: ValidationIssue[] = [];
+  const f = fields(value, path, issues);
+  f.oneOf("speaker", CALL_SPEAKERS);
+  f.number("offsetSec");
+  f.string("text");
+  return issues;
+};
+
+const validateCallRecording: Validator = (value, path) => {
+  if (!isRecord(value)) return [{ path, message: "must be an object" }];
+  const issues: ValidationIssue[] = [];
+  const f = fields(value, path, issues);
+  f.string("id");
+  f.string("url", true);
+  return issues;
+};
+
+export const validateTimelineEvent: Validator = (value, path) => {
+  if (!isRecord(value)) return [{ path, message: "must be an object" }];
+  const issues: ValidationIssue[] = [];
+  const f = fields(value, path, issues);
+  f.oneOf("type", TIMELINE_EVENT_TYPES);
+  if (issues.length) return issues;
+  f.object("actor", validateActor, true);
+  f.string("source", true);
+
+  switch (value.type as TimelineEvent["type"]) {
+    case "TOUCH_SENT":
+      f.oneOf("channel", TOUCH_CHANNELS);
+      f.integer("day");
+      f.string("templateId", true);
+      f.date("sentAt");
+      break;
+    case "CALL_COMPLETED":
+      f.integer("day");
+      f.date("startedAt");
+      f.date("endedAt");
+      f.oneOf("callOutcome", CALL_OUTCOMES);
+      f.oneOf("transferReason", TRANSFER_REASONS, true);
+      f.date("intentDate", true);
+      f.string("notes", true);
+      f.number("durationSec", true);
+      f.oneOf("identityVerification", IDENTITY_VERIFICATIONS, true);
+      f.list("transcript", validateTranscriptTurn, true);
+      f.object("recording", validateCallRecording, true);
+      break;
+    case "PAYMENT_POSTED":
+      f.date("postedAt");
+      f.number("amount");
+      f.oneOf("method", PAYMENT_METHODS, true);
+      f.string("reference", true);
+      f.number("remainingBalance", true);
+      break;
+    case "ESCALATED":
+    case "SUPPRESSED":
+    case "RESUMED":
+    case "DE_ESCALATED":
+      f.date("at");
+      f.string("reason");
+      if (value.type === "RESUMED" || value.type === "DE_ESCALATED") f.boolean("restartedCadence", true);
+      break;
+    case "ESCALATION_RESOLVED":
+      f.date("at");
+      f.oneOf("resolution", ESCALATION_RESOLUTIONS);
+      f.string("resolvedBy");
+      f.string("reason");
+      f.boolean("restartedCadence", true);
+      break;
+    case "AGENT_NOTE":
+      f.date("at");
+      f.string("author");
+      f.oneOf("kind", AGENT_ACTIVITY_KINDS);
+      f.string("body");
+      f.date("followUpDate", true);
+      break;
+  }
+  return issues;
+};
+
+export const validateDealer: Validator = (value, path) => {
+  if (!isRecord(value)) return [{ path, message: "must be an object" }];
+  const issues: ValidationIssue[] = [];
+  const f = fields(value, path, issues);
+  f.string("id");
+  f.string("name");
+  return issues;
+};
+
+const DUPLICATE_FIELDS: Record<DuplicateField, true> = { borrowerId: true, phone: true };
+
+export const validateDuplicateMatch: Validator = (value, path) => {
+  if (!isRecord(value)) return [{ path, message: "must be an object" }];
+  const issues = validateEnrollment(value.enrollment, `${path}.enrollment`);
+  if (!Array.isArray(value.matchedOn) || !value.matchedOn.length || value.matchedOn.some((field) => !DUPLICATE_FIELDS[field as DuplicateField])) {
+    issues.push({ path: `${path}.matchedOn`, message: `must be a non-empty list of ${Object.keys(DUPLICATE_FIELDS).join(", ")}` });
+  }
+  return issues;
+};
+
+export const validateDoNotContactEntry: Validator = (value, path) => {
+  if (!isRecord(value)) return [{ path, message: "must be an object" }];
+  const issues: ValidationIssue[] = [];
+  const f = fields(value, path, issues);
+  f.string("id");
+  f.string("borrowerId", true);
+  f.string("phone", true);
+  f.string("email", true);
+  f.string("reason");
+  f.string("addedBy");
+  f.date("addedAt");
+  if (!issues.length && value.borrowerId == null && value.phone == null && value.email == null) {
+    issues.push({ path, message: "must carry a borrowerId, phone or email" });
+  }
+  return issues;
+};
+
+// Login and refresh responses: tokens plus `expiresIn` seconds and the signed-in user.
+export const validateAuthResponse: Validator = (value, path) => {
+  if (!isRecord(value)) return [{ path, message: "must be an object" }];
+  const issues: ValidationIssue[] = [];
+  const f = fields(value, path, issues);
+  f.string("accessToken");
+  f.string("refreshToken");
+  f.number("expiresIn");
+  if (!isRecord(value.user)) {
+    issues.push({ path: `${path}.user`, message: "must be an object" });
+  } else {
+    const user = fields(value.user, `${path}.user`, issues);
+    user.string("id");
+    user.string("name");
+    user.string("email");
+    user.oneOf("role", ROLES);
+  }
+  return issues;
+};
+
+export const validateCadence: Validator = (value, path) => {
+  if (!isRecord(value)) return [{ path, message: "must be an object" }];
+  const issues: ValidationIssue[] = [];
+  const f = fields(value, path, issues);
+  f.string("id");
+  f.integer("version");
+  f.string("name");
+  f.integer("escalationDay");
+  f.date("createdAt");
+  if (typeof value.isDefault !== "boolean") issues.push({ path: `${path}.isDefault`, message: "must be a boolean" });
+  if (!Array.isArray(value.dealerIds) || value.dealerIds.some((d) => typeof d !== "string")) {
+    issues.push({ path: `${path}.dealerIds`, message: "must be an array of strings" });
+  }
+  if (!Array.isArray(value.steps)) {
+    issues.push({ path: `${path}.steps`, message: "must be an array" });
+  } else {
+    value.steps.forEach((step, index) => {
+      const stepPath = `${path}.steps[${index}]`;
+      if (!isRecord(step)) {
+        issues.push({ path: stepPath, message: "must be an object" });
+        return;
+      }
+      const s = fields(step, stepPath, issues);
+      s.integer("day");
+      s.oneOf("channel", TOUCH_CHANNELS);
+      s.string("templateId");
+    });
+  }
+  return issues;
+};
+
+function validateSummarySnapshot(value: unknown, path: string) {
+  if (!isRecord(value)) return [{ path, message: "must be an object" }];
+  const issues: ValidationIssue[] = [];
+  const f = fields(value, path, issues);
+  f.integer("touchesDueToday");
+  f.integer("overdue");
+  f.number("amountDueOutstanding");
+  if (!isRecord(value.counts)) {
+    issues.push({ path: `${path}.counts`, message: "must be an object" });
+  } else {
+    const counts = fields(value.counts, `${path}.counts`, issues);
+    Object.keys(ENROLLMENT_STATUSES).forEach((status) => counts.integer(status));
+  }
+  return issues;
+}
+
+export const validateSummary: Validator = (value, path) => {
+  const issues = validateSummarySnapshot(value, path);
+  if (!isRecord(value)) return issues;
+  fields(value, path, issues).date("asOf");
+  if (value.previous != null) issues.push(...validateSummarySnapshot(value.previous, `${path}.previous`));
+  return issues;
+};
+
+export const validateLiveUpdate: Validator = (value, path) => {
+  if (!isRecord(value)) return [{ path, message: "must be an object" }];
+  if (value.kind === "enrollment_updated") return validateEnrollment(value.enrollment, `${path}.enrollment`);
+  if (value.kind === "timeline_event") {
+    const issues = validateTimelineEvent(value.event, `${path}.event`);
+    if (typeof value.enrollmentId !== "string") issues.push({ path: `${path}.enrollmentId`, message: "must be a string" });
+    return issues;
+  }
+  return [{ path: `${path}.kind`, message: "must be one of timeline_event, enrollment_updated" }];
+};
+
+export function validateList(items: unknown[], path: string, validate: Validator) {
+  return items.flatMap((item, index) => validate(item, `${path}[${index}]`));
+}
+
+export function describeIssues(issues: ValidationIssue[]) {
+  const [first, ...rest] = issues;
+  if (!first) return "";
+  return `${first.path} ${first.message}${rest.length ? ` (and ${rest.length} more)` : ""}`;
+}
@@ -15,7 +15,15 @@ export interface Enrollment {
   phone?: string;
   email?: string | null;
   vehicle?: string | null;
+  // Two-letter state of the borrower's mailing address; takes precedence over the phone's area code
+  // when working out which timezone and contact rules apply.
+  addressState?: string | null;
   amountDue?: number | null;
+  // Running total of payments posted against amountDue; the remaining balance is the difference.
+  amountPaid?: number | null;
+  assignedTo?: string | null;
+  cadenceId?: string | null;
+  cadenceVersion?: number | null;
 }
 
 export type CallOutcome =
@@ -40,15 +48,49 @@ export type TransferReason =
   | "failed_identity_verification"
   | "undefined_transfer";
 
-export type TouchSentEvent = {
+export type TouchChannel = "sms" | "email" | "push" | "call";
+
+export type ActorType = "user" | "system" | "ai_agent";
+
+export interface Actor {
+  type: ActorType;
+  id: string;
+  name: string;
+  role?: Role;
+}
+
+// Who caused an event and from which screen. Absent on events recorded before attribution existed;
+// `source` is also absent for changes the sequence made on its own.
+export interface Attribution {
+  actor?: Actor;
+  source?: string;
+}
+
+export type TouchSentEvent = Attribution & {
   type: "TOUCH_SENT";
-  channel: "sms" | "email" | "push" | "call";
+  channel: TouchChannel;
   day: number;
   templateId?: string;
   sentAt: string;
 };
 
-export type CallCompletedEvent = {
+export type CallSpeaker = "agent" | "borrower";
+
+export interface TranscriptTurn {
+  speaker: CallSpeaker;
+  // Seconds from the start of the call.
+  offsetSec: number;
+  text: string;
+}
+
+export interface CallRecording {
+  id: string;
+  url?: string;
+}
+
+export type IdentityVerification = "verified" | "failed" | "not_attempted";
+
+export type CallCompletedEvent = Attribution & {
   type: "CALL_COMPLETED";
   day: number;
   startedAt: string;
@@ -57,35 +99,105 @@ export type CallCompletedEvent = {
   transferReason?: TransferReason;
   intentDate?: string;
   notes?: string;
+  // Talk time as measured by the dialer; older events only have startedAt/endedAt (see `callDurationSec`).
+  durationSec?: number;
+  identityVerification?: IdentityVerification;
+  transcript?: TranscriptTurn[];
+  recording?: CallRecording;
 };
 
-export type PaymentPostedEvent = {
+export type PaymentMethod = "card" | "ach" | "cash" | "check" | "other";
+
+export type PaymentPostedEvent = Attribution & {
   type: "PAYMENT_POSTED";
   postedAt: string;
   amount: number;
+  method?: PaymentMethod;
+  reference?: string;
+  // Balance left after this payment; absent on events recorded before balances were tracked.
+  remainingBalance?: number;
 };
 
-export type EscalatedEvent = {
+export type EscalatedEvent = Attribution & {
   type: "ESCALATED";
   at: string;
   reason: string;
 };
 
-export type SuppressedEvent = {
+export type SuppressedEvent = Attribution & {
   type: "SUPPRESSED";
   at: string;
   reason: string;
 };
 
+export type EscalationResolution = "paid" | "returned_to_active" | "suppressed";
+
+// Set on a return to the sequence that started the cadence over from Day 0 because the enrollment had
+// already reached the escalation day. Day numbers after it belong to the new run.
+export interface CadenceRestart {
+  restartedCadence?: boolean;
+}
+
+export type EscalationResolvedEvent = Attribution & CadenceRestart & {
+  type: "ESCALATION_RESOLVED";
+  at: string;
+  resolution: EscalationResolution;
+  resolvedBy: string;
+  reason: string;
+};
+
+// An enrollment put back into the sequence after a suppression.
+export type ResumedEvent = Attribution & CadenceRestart & {
+  type: "RESUMED";
+  at: string;
+  reason: string;
+};
+
+// An escalation withdrawn without going through the resolve flow, e.g. escalated by mistake.
+export type DeEscalatedEvent = Attribution & CadenceRestart & {
+  type: "DE_ESCALATED";
+  at: string;
+  reason: string;
+};
+
+export type AgentActivityKind = "note" | "inbound_call" | "dealer_conversation" | "borrower_email";
+
+// Written by a person rather than the sequence: a note, or a contact that happened outside it.
+export type AgentNoteEvent = Attribution & {
+  type: "AGENT_NOTE";
+  at: string;
+  author: string;
+  kind: AgentActivityKind;
+  body: string;
+  // YYYY-MM-DD; puts the enrollment in the work queue on that day.
+  followUpDate?: string;
+};
+
 export type TimelineEvent =
   | TouchSentEvent
   | CallCompletedEvent
   | PaymentPostedEvent
   | EscalatedEvent
-  | SuppressedEvent;
+  | SuppressedEvent
+  | EscalationResolvedEvent
+  | ResumedEvent
+  | DeEscalatedEvent
+  | AgentNoteEvent;
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// A timeline entry that failed validation; kept aside so one bad event can't break rendering.
+export interface QuarantinedEvent {
+  raw: unknown;
+  issues: ValidationIssue[];
+}
 
 export interface TimelineResponse {
   events: TimelineEvent[];
+  quarantined: QuarantinedEvent[];
 }
 
 export interface CreateEnrollmentPayload {
@@ -94,9 +206,220 @@ export interface CreateEnrollmentPayload {
   phone: string;
   email?: string;
   vehicle?: string;
+  addressState?: string;
   amountDue?: number;
+  cadenceId?: string;
+}
+
+export interface EnrollmentLookupQuery {
+  borrowerId?: string;
+  dealerId?: string;
+  phone?: string;
+}
+
+export type DuplicateField = "borrowerId" | "phone";
+
+// An existing enrollment that looks like the same borrower as one about to be created.
+export interface DuplicateMatch {
+  enrollment: Enrollment;
+  matchedOn: DuplicateField[];
+}
+
+// A borrower who must not be contacted. Any one identifier is enough to match.
+export interface DoNotContactEntry {
+  id: string;
+  borrowerId?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  reason: string;
+  addedBy: string;
+  addedAt: string;
+}
+
+export interface AddDoNotContactPayload {
+  borrowerId?: string;
+  phone?: string;
+  email?: string;
+  reason: string;
 }
 
 export interface ReasonPayload {
   reason: string;
 }
+
+export interface RecordPaymentPayload {
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+}
+
+export interface EscalationQueueItem {
+  enrollment: Enrollment;
+  escalatedAt: string;
+  reason: string;
+  lastCall: CallCompletedEvent | null;
+}
+
+export type AuditAction =
+  | "enrollment.created"
+  | "enrollment.assigned"
+  | "enrollment.suppressed"
+  | "enrollment.escalated"
+  | "enrollment.resumed"
+  | "enrollment.de_escalated"
+  | "escalation.resolved"
+  | "payment.posted"
+  | "note.added"
+  | "cadence.saved"
+  | "cadence.assigned"
+  | "do_not_contact.added"
+  | "do_not_contact.removed";
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  actor: Actor;
+  source?: string;
+  action: AuditAction;
+  // The enrollment, cadence or do-not-contact entry that changed.
+  targetId: string;
+  enrollmentId?: string;
+  borrowerId?: string;
+  dealerId?: string;
+  detail: string;
+}
+
+export interface AuditQuery {
+  q?: string;
+  actorType?: ActorType;
+  action?: AuditAction;
+  // YYYY-MM-DD, inclusive.
+  from?: string;
+  to?: string;
+  dealerId?: string | null;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  nextCursor: string | null;
+  total: number | null;
+}
+
+export interface AddAgentNotePayload {
+  kind: AgentActivityKind;
+  body: string;
+  followUpDate?: string;
+}
+
+export interface AssignPayload {
+  assignedTo: string | null;
+}
+
+// The resolver is whoever is signed in; the server records it on the event. `amount` is only read when
+// resolving as paid, and only required when there's no amount due on file.
+export interface ResolveEscalationPayload {
+  resolution: EscalationResolution;
+  amount?: number;
+  reason: string;
+}
+
+export interface EnrollmentTimeline {
+  enrollment: Enrollment;
+  events: TimelineEvent[];
+}
+
+export interface CadenceStep {
+  day: number;
+  channel: TouchChannel;
+  templateId: string;
+}
+
+export interface Cadence {
+  id: string;
+  version: number;
+  name: string;
+  steps: CadenceStep[];
+  escalationDay: number;
+  dealerIds: string[];
+  isDefault: boolean;
+  createdAt: string;
+}
+
+export interface SaveCadencePayload {
+  name: string;
+  steps: CadenceStep[];
+  escalationDay: number;
+}
+
+export interface AssignCadencePayload {
+  dealerIds: string[];
+}
+
+export type EnrollmentSortKey = "nextScheduledAt" | "amountDue" | "currentDay" | "createdAt";
+
+export type SortOrder = "asc" | "desc";
+
+export interface Dealer {
+  id: string;
+  name: string;
+}
+
+export interface ListEnrollmentsQuery {
+  dealerId?: string | null;
+  q?: string;
+  sort?: EnrollmentSortKey;
+  order?: SortOrder;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface EnrollmentPage {
+  enrollments: Enrollment[];
+  nextCursor: string | null;
+  total: number | null;
+}
+
+export interface EnrollmentSummarySnapshot {
+  counts: Record<EnrollmentStatus, number>;
+  touchesDueToday: number;
+  overdue: number;
+  amountDueOutstanding: number;
+}
+
+export interface EnrollmentSummary extends EnrollmentSummarySnapshot {
+  asOf: string;
+  // The same metrics as of the previous day, when the API has them.
+  previous: EnrollmentSummarySnapshot | null;
+}
+
+export type LiveUpdate =
+  | { kind: "timeline_event"; enrollmentId: string; event: TimelineEvent }
+  | { kind: "enrollment_updated"; enrollment: Enrollment };
+
+export type Role = "viewer" | "agent" | "supervisor";
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+}
+
+export interface LoginPayload {
+  email: string;
+  password: string;
+}
+
+export interface RefreshPayload {
+  refreshToken: string;
+}
+
+export interface Session {
+  accessToken: string;
+  refreshToken: string;
+  // Epoch ms when the access token stops being accepted.
+  expiresAt: number;
+  user: AuthUser;
+}